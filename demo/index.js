@@ -69,6 +69,7 @@ require([
   'hypermd/addon/insert-file',
   'hypermd/addon/mode-loader',
   'hypermd/addon/table-align',
+  'hypermd/addon/outline',
 
   'hypermd/keymap/hypermd',
 
@@ -8,15 +8,25 @@ exports.components = {
   "mode/hypermd": "Mode",
   // "addon/skeleton": "Skeleton",
   "addon/insert-file": "InsertFile",
+  "addon/local-file": "LocalFile",
   "addon/read-link": "ReadLink",
   "addon/hover": "Hover",
   "addon/click": "Click",
+  "addon/footnote": "Footnote",
+  "addon/reference-link": "ReferenceLink",
   "addon/paste": "Paste",
   "addon/fold": "Fold",
   "addon/fold-math": "FoldMath",
   "addon/fold-emoji": "FoldEmoji",
   "addon/fold-html": "FoldHTML",
+  "addon/fold-callout": "FoldCallout",
+  "addon/fold-code": "FoldCode",
+  "addon/image-resize": "ImageResize",
+  "addon/outline": "Outline",
+  "addon/fold-structure": "FoldStructure",
+  "addon/export-html": "ExportHTML",
   "addon/table-align": "TableAlign",
+  "addon/table-edit": "TableEdit",
   "addon/mode-loader": "ModeLoader",
   "addon/hide-token": "HideToken",
   "addon/cursor-debounce": "CursorDebounce",
@@ -3,23 +3,26 @@
 //
 // DESCRIPTION: Click to open links / jump to footnotes / toggle TODOs, and more.
 //
-// With custom ClickHandler supported
+// Behaviors are ClickHandlers, registered for each TargetType and modifier combination (eg. "Ctrl-link").
+// They can be overridden with `registerClickHandler(key, handler, true)`, or `hmdClick.handlers` option.
+//
+// Jumps between footnotes and references are recorded. Use `hmdNavigateBack` / `hmdNavigateForward` commands to go back and forth.
 //
 
 import * as CodeMirror from 'codemirror'
 import { Addon, FlipFlop, expandRange, suggestedEditorConfig } from '../core'
 
 import { cm_t } from '../core/type'
-import { splitLink } from './read-link'
+import { splitLink, findWikilink } from './read-link'
 import { HyperMDState } from '../mode/hypermd';
 
 /********************************************************************************** */
 //#region CLICK HANDLER
 
-export type TargetType = "image" | "link" | "footref" | "url" | "todo" | "hashtag"
+export type TargetType = "image" | "link" | "footref" | "footnote" | "url" | "todo" | "hashtag" | "wikilink"
 export interface ClickInfo {
   type: TargetType
-  text: string
+  text: string // for wikilink, text is the page name. for footnote (definition), text is like `[^1]:`
   url: string // for todo item, url is empty
   pos: CodeMirror.Position
 
@@ -30,108 +33,296 @@ export interface ClickInfo {
   ctrlKey: boolean
   altKey: boolean
   shiftKey: boolean
+  metaKey: boolean
 }
 
 /**
- * User may define his click handler, which has higher priority than HyperMD's.
+ * A ClickHandler is called when user clicks on something.
  *
  * param `info` is a ClickInfo object, containing target type, text etc.
  *
- * Custom handler may return `false` to prevent HyperMD's default behavior.
+ * For the `"*"` handler, which is called before others, it may return `false` to prevent other handlers.
  */
 export type ClickHandler = (info: ClickInfo, cm: cm_t) => (false | void)
+
+/**
+ * A function that opens URLs. Apps may use their own router, instead of `window.open`
+ */
+export type URLOpener = (url: string, info: ClickInfo, cm: cm_t) => void
+
+/** modifier keys of a click */
+export interface ClickModifiers {
+  shiftKey: boolean
+  metaKey: boolean
+  ctrlKey: boolean
+  altKey: boolean
+}
+
+/**
+ * Get the key of a click, made of modifiers and the TargetType, like CodeMirror key names.
+ *
+ * Modifiers are in this order: `Shift-Cmd-Ctrl-Alt-`
+ *
+ * @example "link" "Ctrl-link" "Shift-Alt-footref"
+ */
+export function getClickKey(info: { type: string, shiftKey?: boolean, metaKey?: boolean, ctrlKey?: boolean, altKey?: boolean }) {
+  return (info.shiftKey ? "Shift-" : "") +
+    (info.metaKey ? "Cmd-" : "") +
+    (info.ctrlKey ? "Ctrl-" : "") +
+    (info.altKey ? "Alt-" : "") +
+    info.type
+}
+
+/**
+ * Normalize a click key, so that modifiers are in the right order. eg. "Alt-Ctrl-link" => "Ctrl-Alt-link"
+ */
+export function normalizeClickKey(key: string) {
+  var parts = key.split("-")
+  var type = parts.pop()
+  var info = { type, shiftKey: false, metaKey: false, ctrlKey: false, altKey: false }
+
+  for (let i = 0; i < parts.length; i++) {
+    const mod = parts[i].toLowerCase()
+    if (mod === "shift") info.shiftKey = true
+    else if (mod === "cmd" || mod === "meta") info.metaKey = true
+    else if (mod === "ctrl") info.ctrlKey = true
+    else if (mod === "alt") info.altKey = true
+    else throw new Error(`Unknown modifier ${parts[i]} in ${key}`)
+  }
+
+  return getClickKey(info)
+}
+
+/**
+ * Get the keys of a TargetType, with every modifier combination that `filter` accepts
+ *
+ * @example getClickKeys("link", info => info.ctrlKey) // => ["Ctrl-link", "Ctrl-Alt-link", "Cmd-Ctrl-link", ...]
+ */
+export function getClickKeys(type: string, filter?: (info: ClickModifiers) => boolean): string[] {
+  var ans: string[] = []
+  for (let i = 0; i < 16; i++) {
+    const info = { type, shiftKey: !!(i & 8), metaKey: !!(i & 4), ctrlKey: !!(i & 2), altKey: !!(i & 1) }
+    if (!filter || filter(info)) ans.push(getClickKey(info))
+  }
+  return ans
+}
+
 //#endregion
 
 /********************************************************************************** */
-//#region defaultClickHandler
+//#region ClickHandler Registry
+
+export var clickHandlerRegistry: Record<string, ClickHandler> = {}
+
+/**
+ * Add a ClickHandler to the System ClickHandler Registry.
+ * It can be overridden for each editor, with `hmdClick.handlers` option
+ *
+ * @param key modifiers and the TargetType, eg. `"link"` or `"Ctrl-link"`. See `getClickKey`
+ * @param force if a handler with same key is already exists, overwrite it.
+ */
+export function registerClickHandler(key: string, handler: ClickHandler, force?: boolean) {
+  key = normalizeClickKey(key)
+  if (key in clickHandlerRegistry && !force) throw new Error(`ClickHandler for ${key} already registered`)
+  clickHandlerRegistry[key] = handler
+}
 
+/** Run the registered ClickHandler, regardless of editor's `hmdClick.handlers` option */
 export const defaultClickHandler: ClickHandler = (info, cm) => {
-  var { text, type, url, pos } = info
-
-  if (type === 'url' || type === 'link') {
-    var footnoteRef = text.match(/\[[^\[\]]+\](?:\[\])?$/) // bare link, footref or [foot][] . assume no escaping char inside
-    if (footnoteRef && info.altKey) {
-      // extract footnote part (with square brackets), then jump to the footnote
-      text = footnoteRef[0]
-      if (text.slice(-2) === '[]') text = text.slice(0, -2) // remove [] of [foot][]
-      type = "footref"
-    } else if ((info.ctrlKey || info.altKey) && url) {
-      // just open URL
-      window.open(url, "_blank")
-    }
-  }
+  const handler = clickHandlerRegistry[getClickKey(info)]
+  if (handler) return handler(info, cm)
+}
 
-  if (type === 'todo') {
-    let { from, to } = expandRange(cm, pos, "formatting-task")
-    let text = cm.getRange(from, to)
-    text = (text === '[ ]') ? '[x]' : '[ ]'
-    cm.replaceRange(text, from, to)
-  }
+//#endregion
 
-  if (type === 'footref' && (info.ctrlKey || info.altKey)) {
-    // Jump to FootNote
-    const footnote_name = text.slice(1, -1)
-    const footnote = cm.hmdReadLink(footnote_name, pos.line)
-    if (footnote) {
-      makeBackButton(cm, footnote.line, pos)
-      cm.setCursor({ line: footnote.line, ch: 0 })
-    }
-  }
+/********************************************************************************** */
+//#region Builtin ClickHandlers
+
+/** open the URL, with the URLOpener of the editor */
+export const openLink: ClickHandler = (info, cm) => {
+  if (info.url) getAddon(cm).openURL(info.url, info, cm)
+}
+
+/** jump to the footnote. the origin is remembered, see `Click.navigateBack` */
+export const jumpToFootnote: ClickHandler = (info, cm) => {
+  var text = info.text
+  const footnoteRef = text.match(/\[[^\[\]]+\](?:\[\])?$/) // bare link, footref or [foot][] . assume no escaping char inside
+  if (!footnoteRef) return
+
+  // extract footnote part (with square brackets), then jump to the footnote
+  text = footnoteRef[0]
+  if (text.slice(-2) === '[]') text = text.slice(0, -2) // remove [] of [foot][]
+
+  const footnote_name = text.slice(1, -1)
+  const footnote = cm.hmdReadLink(footnote_name, info.pos.line)
+  if (footnote) getAddon(cm).navigateTo({ line: footnote.line, ch: 0 }, info.pos)
+}
+
+/** jump to the footnote if it's a bare link, footref or `[foot][]`. Otherwise open the URL */
+export const jumpToFootnoteOrOpenLink: ClickHandler = (info, cm) => {
+  if (/\[[^\[\]]+\](?:\[\])?$/.test(info.text)) jumpToFootnote(info, cm)
+  else openLink(info, cm)
+}
+
+/** on a footnote definition, jump to where it is referred. If there are several, let user pick one */
+export const jumpToReference: ClickHandler = (info, cm) => {
+  const mat = info.text.match(/^\[(.+)\]/)
+  if (mat) getAddon(cm).navigateToReference(mat[1], info.pos)
+}
+
+export const toggleTodo: ClickHandler = (info, cm) => {
+  let { from, to } = expandRange(cm, info.pos, "formatting-task")
+  let text = cm.getRange(from, to)
+  text = (text === '[ ]') ? '[x]' : '[ ]'
+  cm.replaceRange(text, from, to)
 }
 
+/** register a ClickHandler for every modifier combination that `filter` accepts. See `getClickKeys` */
+function registerForModifiers(type: TargetType, handler: ClickHandler, filter: (info: ClickModifiers) => boolean) {
+  getClickKeys(type, filter).forEach(key => registerClickHandler(key, handler))
+}
+
+// with Ctrl or Alt, regardless of Shift and Cmd. eg. "Ctrl-link", "Shift-Alt-link", "Ctrl-Alt-footref"
+registerForModifiers("link", openLink, info => info.ctrlKey && !info.altKey)
+registerForModifiers("url", openLink, info => info.ctrlKey && !info.altKey)
+registerForModifiers("link", jumpToFootnoteOrOpenLink, info => info.altKey)
+registerForModifiers("url", jumpToFootnoteOrOpenLink, info => info.altKey)
+registerForModifiers("footref", jumpToFootnote, info => info.ctrlKey || info.altKey)
+registerForModifiers("footnote", jumpToReference, info => info.ctrlKey || info.altKey)
+registerForModifiers("todo", toggleTodo, () => true) // with any modifiers
+
+//#endregion
+
+/********************************************************************************** */
+//#region Navigation
+
 /**
- * Display a "go back" button. Requires "HyperMD-goback" gutter set.
+ * Find where a footnote (or a link reference) is referred, eg. `[^1]`, `[foo]`, `[text][foo]` and `[foo][]`
  *
- * maybe not useful?
+ * @param name the name without brackets, case-insensitive. eg. `^1` or `foo`
+ */
+export function findReferences(cm: cm_t, name: string): CodeMirror.Position[] {
+  const key = name.trim().toLowerCase()
+  const refStyleRE = /(?:^|\s)hmd-(?:barelink2?|footref2?)(?:\s|$)/
+  const bracketRE = /\[([^\[\]]+)\]/g
+  var ans: CodeMirror.Position[] = []
+
+  cm.eachLine(lineHandle => {
+    const text = lineHandle.text
+    if (text.indexOf("[") === -1) return
+
+    const line = cm.getLineNumber(lineHandle)
+    let mat: RegExpExecArray
+    bracketRE.lastIndex = 0
+    while (mat = bracketRE.exec(text)) {
+      if (mat[1].trim().toLowerCase() !== key) continue
+
+      const pos = { line, ch: mat.index }
+      const type = cm.getTokenAt({ line, ch: mat.index + 1 }).type
+      if (type && refStyleRE.test(type)) ans.push(pos)
+    }
+  })
+
+  return ans
+}
+
+/**
+ * Let user pick one from several positions.
  *
- * @param line where to place the button
- * @param anchor when user click the back button, jumps to here
+ * Call `callback` with the picked position, or with `null` if user cancelled.
  */
-const makeBackButton = (function () {
-  var bookmark: { find(): CodeMirror.Position; clear() } = null
+export type PositionPicker = (cm: cm_t, positions: CodeMirror.Position[], callback: (pos: CodeMirror.Position) => void) => void
 
-  function updateBookmark(cm: cm_t, pos: CodeMirror.Position) {
-    if (bookmark) {
-      cm.clearGutter("HyperMD-goback")
-      bookmark.clear()
-    }
-    bookmark = cm.setBookmark(pos) as any
+/**
+ * Show a list below the cursor. Use Up / Down / Enter, or mouse to pick one; Esc to cancel.
+ */
+export const defaultPositionPicker: PositionPicker = (cm, positions, callback) => {
+  var list = document.createElement("ul")
+  list.className = "HyperMD-nav-picker"
+  list.setAttribute("cm-ignore-events", "true")
+
+  var selected = 0
+  var items: HTMLLIElement[] = positions.map((pos, index) => {
+    const item = document.createElement("li")
+    const lineText = cm.getLine(pos.line)
+
+    const lineNo = document.createElement("span")
+    lineNo.className = "HyperMD-nav-picker-line"
+    lineNo.textContent = (pos.line + 1) + ""
+    item.appendChild(lineNo)
+    item.appendChild(document.createTextNode(lineText.length > 60 ? lineText.slice(0, 60) + "…" : lineText))
+
+    item.addEventListener("mousedown", (ev) => {
+      ev.preventDefault()
+      close(pos)
+    }, false)
+    list.appendChild(item)
+    return item
+  })
+
+  const select = (index: number) => {
+    items[selected].className = ""
+    selected = (index + items.length) % items.length
+    items[selected].className = "HyperMD-nav-picker-selected"
   }
 
-  /**
-   * Make a button, bind event handlers, but not insert the button
-   */
-  function makeButton(cm: cm_t) {
-    var hasBackButton = cm.options.gutters.indexOf("HyperMD-goback") != -1
-    if (!hasBackButton) return null
-
-    var backButton = document.createElement("div")
-    backButton.className = "HyperMD-goback-button"
-    backButton.addEventListener("click", function () {
-      cm.setCursor(bookmark.find())
-      cm.clearGutter("HyperMD-goback")
-      bookmark.clear()
-      bookmark = null
-    })
+  const keyMap: CodeMirror.KeyMap = {
+    "Up": () => select(selected - 1),
+    "Down": () => select(selected + 1),
+    "Enter": () => close(positions[selected]),
+    "Esc": () => close(null),
+  }
 
-    var _tmp1 = cm.display.gutters.children
-    _tmp1 = _tmp1[_tmp1.length - 1]
-    _tmp1 = _tmp1.offsetLeft + _tmp1.offsetWidth
-    backButton.style.width = _tmp1 + "px"
-    backButton.style.marginLeft = -_tmp1 + "px"
+  var closed = false
+  const close = (pos: CodeMirror.Position) => {
+    if (closed) return
+    closed = true
 
-    return backButton
+    cm.removeKeyMap(keyMap)
+    cm.off("blur", cancel)
+    cm.off("cursorActivity", cancel)
+    if (list.parentNode) list.parentNode.removeChild(list)
+    callback(pos)
   }
+  const cancel = () => close(null)
 
-  return function (cm: cm_t, line: number, anchor: CodeMirror.Position) {
-    var backButton = makeButton(cm)
-    if (!backButton) return
+  select(0)
+  cm.addKeyMap(keyMap)
+  cm.on("blur", cancel)
+  cm.on("cursorActivity", cancel)
+  cm.addWidget(cm.getCursor(), list, true)
+}
 
-    backButton.innerHTML = (anchor.line + 1) + ""
-    updateBookmark(cm, anchor)
-    cm.setGutterMarker(line, "HyperMD-goback", backButton)
-  }
-})();
+/** max length of navigation history */
+const MAX_HISTORY = 50
+
+/** a position in navigation history, tracked by a bookmark, so it survives editing */
+type HistoryEntry = CodeMirror.TextMarker
+
+/** make a "go back" button for "HyperMD-goback" gutter, or `null` if that gutter is not set */
+function makeBackButton(cm: cm_t) {
+  var hasBackButton = cm.options.gutters.indexOf("HyperMD-goback") != -1
+  if (!hasBackButton) return null
+
+  var backButton = document.createElement("div")
+  backButton.className = "HyperMD-goback-button"
+  backButton.addEventListener("click", function () {
+    getAddon(cm).navigateBack()
+  })
+
+  var _tmp1 = cm.display.gutters.children
+  _tmp1 = _tmp1[_tmp1.length - 1]
+  _tmp1 = _tmp1.offsetLeft + _tmp1.offsetWidth
+  backButton.style.width = _tmp1 + "px"
+  backButton.style.marginLeft = -_tmp1 + "px"
+
+  return backButton
+}
+
+Object.assign(CodeMirror.commands, {
+  hmdNavigateBack: (cm: cm_t) => { if (!getAddon(cm).navigateBack()) return CodeMirror.Pass },
+  hmdNavigateForward: (cm: cm_t) => { if (!getAddon(cm).navigateForward()) return CodeMirror.Pass },
+})
 
 //#endregion
 
@@ -143,15 +334,44 @@ export interface Options extends Addon.AddonOptions {
   enabled: boolean
 
   /**
-   * A callback when user clicked on something. May return `false` to supress HyperMD default behavoir.
+   * Override registered ClickHandlers, for current editor. Set one to `null` to disable it.
+   *
+   * The key is made of modifiers and the TargetType, see `getClickKey`.
+   * A special `"*"` handler is called before others, which may return `false` to prevent them.
+   *
+   * Note: each modifier combination is a different key. Use `getClickKeys` to get all combinations.
+   *
+   * @example { "Ctrl-link": myOpenLink, "hashtag": searchTag, "Alt-url": null }
    * @see ClickHandler
+   * @see registerClickHandler
+   */
+  handlers: Record<string, ClickHandler>
+
+  /**
+   * Open URLs for builtin ClickHandlers. Apps may use their own router.
+   *
+   * @see URLOpener
    */
-  handler: ClickHandler
+  openURL: URLOpener
+
+  /**
+   * When jumping from a footnote to its references, and there are several, let user pick one.
+   *
+   * @see PositionPicker
+   */
+  pickPosition: PositionPicker
+
+  /**
+   * @deprecated the legacy option. It works as the `"*"` one of `handlers`
+   */
+  handler?: ClickHandler
 }
 
 export const defaultOption: Options = {
   enabled: false,
-  handler: null,
+  handlers: {},
+  openURL: (url) => { window.open(url, "_blank") },
+  pickPosition: defaultPositionPicker,
 }
 
 export const suggestedOption: Partial<Options> = {
@@ -167,7 +387,7 @@ declare global {
        * Options for Click.
        *
        * You may also provide a `false` to disable it; a `true` to enable it with default behavior;
-       * or a callback which may return `false` to supress HyperMD default behavoir.
+       * or a `"*"` ClickHandler which may return `false` to supress HyperMD default behavoir.
        */
       hmdClick?: OptionValueType
     }
@@ -183,7 +403,9 @@ CodeMirror.defineOption("hmdClick", defaultOption, function (cm: cm_t, newVal: O
   if (!newVal || typeof newVal === "boolean") {
     newVal = { enabled: !!newVal }
   } else if (typeof newVal === "function") {
-    newVal = { enabled: true, handler: newVal }
+    newVal = { enabled: true, handlers: { "*": newVal } }
+  } else if (typeof newVal.handler === "function") {
+    newVal = { ...newVal, handlers: { "*": newVal.handler, ...newVal.handlers } }
   }
 
   ///// apply config and write new values into cm
@@ -192,6 +414,10 @@ CodeMirror.defineOption("hmdClick", defaultOption, function (cm: cm_t, newVal: O
   for (var k in defaultOption) {
     inst[k] = (k in newVal) ? newVal[k] : defaultOption[k]
   }
+
+  var handlers: Record<string, ClickHandler> = {}
+  for (var key in inst.handlers) handlers[key === "*" ? key : normalizeClickKey(key)] = inst.handlers[key]
+  inst.handlers = handlers
 })
 
 //#endregion
@@ -201,7 +427,9 @@ CodeMirror.defineOption("hmdClick", defaultOption, function (cm: cm_t, newVal: O
 
 export class Click implements Addon.Addon, Options {
   enabled: boolean;
-  handler: ClickHandler;
+  handlers: Record<string, ClickHandler>;
+  openURL: URLOpener;
+  pickPosition: PositionPicker;
 
   private el: HTMLElement
 
@@ -280,8 +508,137 @@ export class Click implements Addon.Addon, Options {
     this.lineDiv.removeEventListener("mouseup", this._mouseUp, false)
     if (Math.abs(ev.clientX - cinfo.clientX) > 5 || Math.abs(ev.clientY - cinfo.clientY) > 5) return
 
-    if (typeof this.handler === 'function' && this.handler(cinfo, this.cm) === false) return
-    defaultClickHandler(cinfo, this.cm)
+    this.dispatch(cinfo)
+  }
+
+  /**
+   * Find the ClickHandler for a click, from `handlers` option and the System ClickHandler Registry
+   *
+   * @returns `null` if not found, or disabled
+   */
+  findHandler(info: ClickInfo): ClickHandler {
+    const key = getClickKey(info)
+    if (this.handlers && key in this.handlers) return this.handlers[key] || null
+    return clickHandlerRegistry[key] || null
+  }
+
+  /** Call the `"*"` ClickHandler, then the ClickHandler of this click */
+  dispatch(info: ClickInfo) {
+    const anyHandler = this.handlers && this.handlers["*"]
+    if (typeof anyHandler === 'function' && anyHandler(info, this.cm) === false) return
+
+    const handler = this.findHandler(info)
+    if (handler) handler(info, this.cm)
+  }
+
+  /** where user jumped from. the last one is the latest */
+  private _backHistory: HistoryEntry[] = []
+
+  /** where user went back from. the last one is the latest */
+  private _forwardHistory: HistoryEntry[] = []
+
+  /** get the position of the latest valid entry, and remove it from the history */
+  private _popHistory(history: HistoryEntry[]): CodeMirror.Position {
+    var entry: HistoryEntry
+    while (entry = history.pop()) {
+      const pos = entry.find<CodeMirror.Position>()
+      entry.clear()
+      if (pos) return pos
+    }
+    return null
+  }
+
+  private _pushHistory(history: HistoryEntry[], pos: CodeMirror.Position) {
+    history.push(this.cm.setBookmark(pos))
+    if (history.length > MAX_HISTORY) history.shift().clear()
+  }
+
+  /** move cursor to `pos`, and put a "go back" button in the "HyperMD-goback" gutter (if set) */
+  private _jump(pos: CodeMirror.Position) {
+    const cm = this.cm
+    const back = this._backHistory[this._backHistory.length - 1]
+    const backPos = back && back.find<CodeMirror.Position>()
+
+    cm.operation(() => {
+      cm.setCursor(pos)
+      cm.scrollIntoView(pos, 100)
+
+      if (cm.options.gutters.indexOf("HyperMD-goback") === -1) return
+      cm.clearGutter("HyperMD-goback")
+
+      var backButton = backPos && makeBackButton(cm)
+      if (backButton) {
+        backButton.textContent = (backPos.line + 1) + ""
+        cm.setGutterMarker(pos.line, "HyperMD-goback", backButton)
+      }
+    })
+  }
+
+  /**
+   * Jump to somewhere, and remember where user came from. Then user may go back with `navigateBack()`
+   *
+   * @param from default: the cursor
+   */
+  navigateTo(pos: CodeMirror.Position, from?: CodeMirror.Position) {
+    this._pushHistory(this._backHistory, from || this.cm.getCursor())
+
+    var entry: HistoryEntry
+    while (entry = this._forwardHistory.pop()) entry.clear()
+
+    this._jump(pos)
+  }
+
+  /** @returns `false` if there is nowhere to go back */
+  navigateBack() {
+    var pos = this._popHistory(this._backHistory)
+    if (!pos) return false
+
+    this._pushHistory(this._forwardHistory, this.cm.getCursor())
+    this._jump(pos)
+    return true
+  }
+
+  /** @returns `false` if there is nowhere to go forward */
+  navigateForward() {
+    var pos = this._popHistory(this._forwardHistory)
+    if (!pos) return false
+
+    this._pushHistory(this._backHistory, this.cm.getCursor())
+    this._jump(pos)
+    return true
+  }
+
+  /** test if `navigateBack()` or `navigateForward()` works */
+  canNavigate(forward?: boolean) {
+    var history = forward ? this._forwardHistory : this._backHistory
+    for (let i = 0; i < history.length; i++) if (history[i].find()) return true
+    return false
+  }
+
+  /** forget all navigation history */
+  clearHistory() {
+    var entry: HistoryEntry
+    while (entry = this._backHistory.pop()) entry.clear()
+    while (entry = this._forwardHistory.pop()) entry.clear()
+    if (this.cm.options.gutters.indexOf("HyperMD-goback") !== -1) this.cm.clearGutter("HyperMD-goback")
+  }
+
+  /**
+   * Jump from a footnote definition to where it is referred.
+   * If there are several references, `pickPosition` is called to let user pick one.
+   *
+   * @param name the name without brackets, eg. `^1`
+   * @returns `false` if no reference found
+   */
+  navigateToReference(name: string, from?: CodeMirror.Position) {
+    const cm = this.cm
+    const refs = findReferences(cm, name)
+    if (!refs.length) return false
+    if (!from) from = cm.getCursor()
+
+    if (refs.length === 1) this.navigateTo(refs[0], from)
+    else this.pickPosition(cm, refs, (pos) => { if (pos) this.navigateTo(pos, from) })
+    return true
   }
 
   /**
@@ -290,7 +647,7 @@ export class Click implements Addon.Addon, Options {
   private _mouseDown = (ev: MouseEvent) => {
     var {
       button, clientX, clientY,
-      ctrlKey, altKey, shiftKey,
+      ctrlKey, altKey, shiftKey, metaKey,
     } = ev
     var cm = this.cm
 
@@ -308,8 +665,16 @@ export class Click implements Addon.Addon, Options {
     var type: TargetType = null
     var text: string, url: string
 
-    if (mat = styles.match(/\s(image|link|url)\s/)) {
-      // Could be a image, link, bare-link, footref, footnote, plain url, plain url w/o angle brackets
+    if (/\shmd-footnote\s/.test(styles)) {
+      // the name of a footnote / link definition, eg. [^1]: or [foo]:
+      type = "footnote"
+      range = expandRange(cm, pos, "hmd-footnote")
+      text = cm.getRange(range.from, range.to).trim()
+
+      let t2 = (mat = text.match(/^\[(.+)\]/)) && cm.hmdReadLink(mat[1], pos.line)
+      url = t2 ? cm.hmdResolveURL(splitLink(t2.content).url) : null
+    } else if (mat = styles.match(/\s(image|link|url)\s/)) {
+      // Could be a image, link, bare-link, footref, plain url, plain url w/o angle brackets
       type = mat[1] as TargetType
 
       const isBareLink = /\shmd-barelink\s/.test(styles)
@@ -377,13 +742,20 @@ export class Click implements Addon.Addon, Options {
       range = expandRange(cm, pos, "hashtag")
       text = cm.getRange(range.from, range.to)
       url = null
+    } else if (styles.match(/\shmd-wikilink\s/)) {
+      let wikilink = findWikilink(cm.getLine(pos.line), pos.ch)
+      if (wikilink) {
+        type = "wikilink"
+        text = wikilink.page
+        url = null
+      }
     }
 
     if (type !== null) {
       this._cinfo = {
         type, text, url, pos,
         button, clientX, clientY,
-        ctrlKey, altKey, shiftKey,
+        ctrlKey, altKey, shiftKey, metaKey,
       }
       this.lineDiv.addEventListener('mouseup', this._mouseUp, false)
     }
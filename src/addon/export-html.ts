@@ -0,0 +1,754 @@
+// HyperMD, copyright (c) by laobubu
+// Distributed under an MIT license: http://laobubu.net/HyperMD/LICENSE
+//
+// DESCRIPTION: Export Markdown to HTML, using HyperMD mode's own parsing result
+//
+// What you see in the editor is what you get in the HTML.
+// Each kind of token (math, emoji, link...) can be rendered by your own function. See `HTMLRenderers`
+//
+
+import * as CodeMirror from 'codemirror'
+import { cm_t } from '../core/type'
+import { HyperMDState } from '../mode/hypermd'
+import { getHeadingText, slugify } from './outline'
+import { sanitizeHTML } from './fold-html'
+import { FoldMath } from './fold-math'
+import { FoldEmoji } from './fold-emoji'
+
+import '../mode/hypermd'
+import 'codemirror/addon/runmode/runmode'
+
+/********************************************************************************** */
+
+export function escapeHTML(text: string) {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;")
+}
+
+/** URL schemes that default renderers refuse to export, because the HTML may be opened by others */
+export var unsafeURLSchemes = ["javascript", "vbscript", "data"]
+
+/** check if a URL's scheme is not in `unsafeURLSchemes`. Relative URLs are safe */
+export function isSafeURL(url: string) {
+  var scheme = /^([a-z][a-z\d+.\-]*):/i.exec(url.replace(/[\x00-\x20]+/g, "")) // browsers ignore them, eg. "java\tscript:"
+  return !scheme || unsafeURLSchemes.indexOf(scheme[1].toLowerCase()) === -1
+}
+
+/**
+ * Renderers for each kind of token. All of them return HTML string.
+ *
+ * Text arguments are NOT escaped, unless the argument is named `html`
+ */
+export interface HTMLRenderers {
+  text(text: string, exporter: HTMLExporter): string
+  /** inline code, without backticks */
+  code(code: string, exporter: HTMLExporter): string
+  /** fenced or indented code block. `lang` might be empty */
+  codeBlock(code: string, lang: string, exporter: HTMLExporter): string
+  /** TeX expression, without `$` or `$$` */
+  math(expr: string, displayMode: boolean, exporter: HTMLExporter): string
+  /** @param name with colons, eg. `:smile:` */
+  emoji(name: string, exporter: HTMLExporter): string
+  /** @param tag without `#` */
+  hashtag(tag: string, exporter: HTMLExporter): string
+  /** @param html rendered link text. The default one drops unsafe URLs, see `isSafeURL` */
+  link(html: string, url: string, title: string, exporter: HTMLExporter): string
+  /** the default one drops unsafe URLs, see `isSafeURL` */
+  image(alt: string, url: string, title: string, exporter: HTMLExporter): string
+  /** @param index the footnote number, starts from 1 */
+  footref(name: string, index: number, exporter: HTMLExporter): string
+  /** render one footnote item in the footnotes list */
+  footnote(name: string, index: number, html: string, exporter: HTMLExporter): string
+  /** @param alias might be empty */
+  wikilink(page: string, alias: string, exporter: HTMLExporter): string
+  /** raw inline HTML. The default one sanitizes it with `sanitizeHTML` of *fold-html* addon, or escapes it if no DOMParser */
+  html(html: string, exporter: HTMLExporter): string
+  /** the `[ ]` or `[x]` in task lists */
+  task(checked: boolean, exporter: HTMLExporter): string
+}
+
+export const defaultRenderers: HTMLRenderers = {
+  text: (text) => escapeHTML(text),
+  code: (code) => "<code>" + escapeHTML(code) + "</code>",
+  codeBlock: (code, lang) => {
+    var attr = lang ? ` class="language-${escapeHTML(lang)}"` : ""
+    return `<pre><code${attr}>${escapeHTML(code)}</code></pre>`
+  },
+  math: (expr, displayMode, exporter) => {
+    // use the editor's MathRenderer if possible. Works only if the renderer is synchronous
+    var foldMath: FoldMath = exporter.cm && exporter.cm.hmd && exporter.cm.hmd.FoldMath
+    var tagName = displayMode ? "div" : "span"
+    if (foldMath && typeof document !== 'undefined') {
+      let container = document.createElement(tagName)
+      let renderer = foldMath.createRenderer(container, displayMode ? "display" : "")
+      if (renderer.isReady()) {
+        renderer.startRender(expr)
+        if (container.innerHTML) return `<${tagName} class="math">${container.innerHTML}</${tagName}>`
+      }
+    }
+
+    var text = displayMode ? ("\\[" + expr + "\\]") : ("\\(" + expr + "\\)")
+    return `<${tagName} class="math">${escapeHTML(text)}</${tagName}>`
+  },
+  emoji: (name, exporter) => {
+    // use the editor's EmojiRenderer if possible.
+    var foldEmoji: FoldEmoji = exporter.cm && exporter.cm.hmd && exporter.cm.hmd.FoldEmoji
+    if (foldEmoji && foldEmoji.isEmoji(name)) {
+      let el = ((name in foldEmoji.myEmoji) && foldEmoji.myEmoji[name](name)) || foldEmoji.emojiRenderer(name)
+      if (el && el.outerHTML) return el.outerHTML
+    }
+    return escapeHTML(name)
+  },
+  hashtag: (tag) => `<span class="hashtag">#${escapeHTML(tag)}</span>`,
+  link: (html, url, title) => {
+    if (!isSafeURL(url)) return html
+    var attr = title ? ` title="${escapeHTML(title)}"` : ""
+    return `<a href="${escapeHTML(url)}"${attr}>${html}</a>`
+  },
+  image: (alt, url, title) => {
+    if (!isSafeURL(url)) return escapeHTML(alt)
+    var attr = title ? ` title="${escapeHTML(title)}"` : ""
+    return `<img src="${escapeHTML(url)}" alt="${escapeHTML(alt)}"${attr}>`
+  },
+  footref: (name, index) => {
+    var id = escapeHTML(slugify(name))
+    return `<sup class="footnote-ref"><a href="#fn-${id}" id="fnref-${id}">${index}</a></sup>`
+  },
+  footnote: (name, index, html) => {
+    var id = escapeHTML(slugify(name))
+    return `<li id="fn-${id}">${html} <a href="#fnref-${id}" class="footnote-backref">↩</a></li>`
+  },
+  wikilink: (page, alias) => {
+    if (!isSafeURL(page)) return escapeHTML(alias || page)
+    return `<a class="wikilink" href="${escapeHTML(encodeURI(page))}">${escapeHTML(alias || page)}</a>`
+  },
+  html: (html) => (typeof DOMParser !== 'undefined') ? sanitizeHTML(html) : escapeHTML(html),
+  task: (checked) => `<input type="checkbox" disabled${checked ? " checked" : ""}>`,
+}
+
+/********************************************************************************** */
+//#region Exporter
+
+export interface ExportToken {
+  string: string
+  type: string
+}
+
+export interface ExportLine {
+  text: string
+  tokens: ExportToken[]
+  /** all token types of this line, joined with spaces */
+  style: string
+  quote: number
+  listDepth: number
+  tableColumns: string[]
+}
+
+export interface ExportOptions {
+  /** mode name or mode options, eg. `{ name: "hypermd", hashtag: true }` */
+  mode: string | object
+  tabSize: number
+  renderers: Partial<HTMLRenderers>
+  /** the editor, which provides MathRenderer, EmojiRenderer etc. could be null */
+  cm: cm_t
+}
+
+export const defaultExportOptions: ExportOptions = {
+  mode: "hypermd",
+  tabSize: 4,
+  renderers: {},
+  cm: null,
+}
+
+/** tokens at the beginning of lines, which shall not be rendered */
+const leadingTokenRE = /\b(?:formatting-quote|hmd-indent-in-quote|hmd-indent-in-callout|hmd-list-indent|formatting-list|formatting-deflist)\b/
+
+/**
+ * Parse Markdown with HyperMD mode, then render it into HTML
+ *
+ * Usually you don't need this. Use `exportHTML(markdown)` or `cm.hmdExportHTML()` instead.
+ */
+export class HTMLExporter {
+  renderers: HTMLRenderers
+  cm: cm_t
+
+  lines: ExportLine[] = []
+
+  /** link reference definitions, like `[name]: url "title"`. The keys are lower-cased names */
+  links: Record<string, { url: string, title: string }> = {}
+
+  /** footnote definitions, like `[^name]: text`. The values are tokens */
+  footnotes: Record<string, ExportToken[]> = {}
+
+  /** names of referred footnotes, ordered by first reference */
+  footnoteOrder: string[] = []
+
+  headings: { level: number, text: string, slug: string }[] = []
+
+  private _out: string[] = []
+  private _paragraph: ExportToken[] = []
+  private _quote = 0
+  private _lists: { tag: string, fresh: boolean }[] = []
+  private _inDeflist = false
+  private _slugCount: Record<string, number> = {}
+
+  constructor(public options: ExportOptions) {
+    this.renderers = { ...defaultRenderers, ...options.renderers }
+    this.cm = options.cm
+  }
+
+  export(markdown: string): string {
+    this.tokenize(markdown)
+    this.collectDefinitions()
+
+    const lines = this.lines
+    for (let i = 0; i < lines.length; i++) i = this.renderLine(i)
+
+    this.flushParagraph()
+    this.syncContainers(0, 0)
+    if (this._inDeflist) this.closeDeflist()
+
+    var html = this._out.join("\n")
+    html = html.replace(/<!--hmd-toc-->/g, () => this.renderTOC())
+    html += this.renderFootnotes()
+
+    return html
+  }
+
+  /** run HyperMD mode and fill `this.lines` */
+  tokenize(markdown: string) {
+    const lines = this.lines = CodeMirror.splitLines(markdown).map(text => ({
+      text, tokens: [], style: "", quote: 0, listDepth: 0, tableColumns: null,
+    } as ExportLine))
+
+    CodeMirror.runMode(markdown, this.options.mode, (text: string, style: string, lineNo: number, start: number, state: HyperMDState) => {
+      if (text === "\n") return
+
+      const line = lines[lineNo]
+      line.tokens.push({ string: text, type: style || "" })
+      line.style += " " + (style || "")
+      line.quote = state.quote
+      line.listDepth = state.listStack.length
+      line.tableColumns = state.hmdTableColumns
+    }, { tabSize: this.options.tabSize })
+  }
+
+  /** find link references and footnotes */
+  collectDefinitions() {
+    const lines = this.lines
+    for (let i = 0; i < lines.length; i++) {
+      const line = lines[i]
+      if (!/\bline-HyperMD-footnote\b/.test(line.style)) continue
+
+      const mat = line.text.match(/^\s*\[(\^?)((?:[^\]\\]|\\.)+)\]:\s*/)
+      if (!mat) continue
+
+      const name = mat[2]
+      if (mat[1]) {
+        // footnote. skip the "[^name]:" tokens
+        let tokens = line.tokens.slice(0)
+        while (tokens.length && /\bhmd-footnote\b/.test(tokens[0].type)) tokens.shift()
+        this.footnotes[name] = tokens
+      } else {
+        let urlMat = line.text.slice(mat[0].length).match(/^<?([^\s>]*)>?(?:\s+["'(](.*)["')])?\s*$/)
+        if (urlMat) this.links[name.toLowerCase()] = { url: urlMat[1], title: urlMat[2] || "" }
+      }
+    }
+  }
+
+  /**
+   * render the i-th line, and maybe following lines
+   *
+   * @returns the last line number it rendered
+   */
+  renderLine(lineNo: number): number {
+    const lines = this.lines
+    const line = lines[lineNo]
+    const style = line.style
+    const r = this.renderers
+
+    if (/\bhmd-frontmatter\b/.test(style)) return lineNo
+    if (/\bline-HyperMD-(?:footnote|abbr|orgmode-markup)\b/.test(style)) return lineNo
+
+    // fenced code block
+
+    if (/\bline-HyperMD-codeblock-begin\b/.test(style)) {
+      const lang = line.text.replace(/^\s*(?:`{3,}|~{3,})\s*/, "").split(/[\s{]/)[0]
+      const code: string[] = []
+      let end = lineNo + 1
+      for (; end < lines.length && !/\bline-HyperMD-codeblock-end\b/.test(lines[end].style); end++) code.push(lines[end].text)
+
+      this.startBlock(line)
+      this._out.push(r.codeBlock(code.join("\n"), lang, this))
+      return end
+    }
+
+    // indented code block
+
+    if (/\bhmd-indented-code\b/.test(style)) {
+      const code: string[] = []
+      let end = lineNo
+      for (; end < lines.length && (/\bhmd-indented-code\b/.test(lines[end].style) || !/\S/.test(lines[end].text)); end++) {
+        code.push(lines[end].text.replace(/^(?: {4}|\t)/, ""))
+      }
+      while (code.length && !/\S/.test(code[code.length - 1])) code.pop()
+
+      this.startBlock(line)
+      this._out.push(r.codeBlock(code.join("\n"), "", this))
+      return end - 1
+    }
+
+    // strip quote marks, list bullets etc.
+
+    var tokens = line.tokens.slice(0)
+    var bullet: ExportToken = null
+    while (tokens.length && (leadingTokenRE.test(tokens[0].type) || !/\S/.test(tokens[0].string))) {
+      const token = tokens.shift()
+      if (/\bformatting-list\b/.test(token.type)) bullet = token
+    }
+
+    if (!tokens.length && !bullet) {
+      // blank line
+      this.flushParagraph()
+      return lineNo
+    }
+
+    if (this._inDeflist && !/\bline-HyperMD-deflist-/.test(style)) {
+      this.flushParagraph()
+      this.closeDeflist()
+    }
+
+    if (bullet) {
+      this.flushParagraph()
+      this.syncContainers(line.quote, line.listDepth)
+      this.openListItem(/\bformatting-list-ol\b/.test(bullet.type) ? "ol" : "ul", line.listDepth)
+    } else if (!this._paragraph.length || this._quote !== line.quote || this._lists.length > line.listDepth) {
+      this.flushParagraph()
+      this.syncContainers(line.quote, line.listDepth)
+    }
+
+    // headings
+
+    var tmp: RegExpMatchArray
+    if (tmp = style.match(/\bline-HyperMD-header-(\d)\b/)) {
+      const level = ~~tmp[1]
+      const atx = /^\s*#/.test(line.text)
+      const title = atx ? line.text.replace(/^\s*#+\s*|\s+#+\s*$/g, "") : line.text
+      const slug = this.makeSlug(getHeadingText(title))
+      const content = tokens.filter(t => !/\bformatting-header\b/.test(t.type))
+
+      this.flushParagraph()
+      this.headings.push({ level, text: getHeadingText(title), slug })
+      this._out.push(`<h${level} id="${escapeHTML(slug)}">${this.renderInline(content).trim()}</h${level}>`)
+      return lineNo
+    }
+
+    if (/\bline-HyperMD-header-line\b/.test(style)) return lineNo // the ==== of Setext heading
+
+    if (/\bline-HyperMD-hr\b/.test(style)) {
+      this.flushParagraph()
+      this._out.push("<hr>")
+      return lineNo
+    }
+
+    if (/\bhmd-toc\b/.test(style)) {
+      this.flushParagraph()
+      this._out.push("<!--hmd-toc-->")
+      return lineNo
+    }
+
+    // table
+
+    if (/\bline-HyperMD-table-row-0\b/.test(style)) {
+      let end = lineNo + 1
+      while (end < lines.length && /\bline-HyperMD-table-row-[1-9]/.test(lines[end].style)) end++
+
+      this.flushParagraph()
+      this._out.push(this.renderTable(lineNo, end - 1))
+      return end - 1
+    }
+
+    // definition list
+
+    if (tmp = style.match(/\bline-HyperMD-deflist-(term|def)\b/)) {
+      this.flushParagraph()
+      if (!this._inDeflist) {
+        this._out.push("<dl>")
+        this._inDeflist = true
+      }
+
+      const tag = tmp[1] === "term" ? "dt" : "dd"
+      this._out.push(`<${tag}>${this.renderInline(tokens).trim()}</${tag}>`)
+      return lineNo
+    }
+
+    // callout title
+
+    if (tokens.length && /\bhmd-callout-begin\b/.test(tokens[0].type)) {
+      this.flushParagraph()
+      const title = tokens.slice(1)
+      const kind = tokens[0].string.replace(/^\[!|\].*$|^(?:!!!|\?\?\?\+?)\s*/g, "").toLowerCase()
+      const html = this.renderInline(title).trim().replace(/^&quot;(.*)&quot;$/, "$1") || escapeHTML(kind.charAt(0).toUpperCase() + kind.slice(1))
+      this._out.push(`<p class="callout-title">${html}</p>`)
+      return lineNo
+    }
+
+    // paragraph
+
+    if (this._paragraph.length) this._paragraph.push({ string: "\n", type: "" })
+    this._paragraph.push(...tokens)
+    return lineNo
+  }
+
+  /** close paragraphs and containers, before starting a block like code block */
+  private startBlock(line: ExportLine) {
+    this.flushParagraph()
+    this.syncContainers(line.quote, line.listDepth)
+  }
+
+  /** render collected paragraph */
+  flushParagraph() {
+    var tokens = this._paragraph
+    if (!tokens.length) return
+    this._paragraph = []
+
+    var html = this.renderInline(tokens).replace(/[ \t]+$/gm, "")
+    var list = this._lists[this._lists.length - 1]
+    if (isDisplayMathOnly(tokens)) {
+      this._out.push(html)
+    } else if (list && list.fresh) {
+      // first paragraph of a list item
+      list.fresh = false
+      this._out.push(html)
+    } else {
+      this._out.push("<p>" + html + "</p>")
+    }
+  }
+
+  /** close or open blockquotes and lists, to match given quote level and list depth */
+  syncContainers(quote: number, listDepth: number) {
+    const out = this._out
+    const lists = this._lists
+
+    if (quote !== this._quote) listDepth = 0 // lists inside quotes are not supported
+
+    while (lists.length > listDepth) {
+      out.push("</li></" + lists.pop().tag + ">")
+    }
+
+    while (this._quote > quote) {
+      out.push("</blockquote>")
+      this._quote--
+    }
+
+    while (this._quote < quote) {
+      out.push("<blockquote>")
+      this._quote++
+    }
+  }
+
+  /** start a new list item. If needed, open a new list */
+  openListItem(tag: string, depth: number) {
+    const out = this._out
+    const lists = this._lists
+
+    var top = lists[lists.length - 1]
+    if (lists.length === depth) {
+      if (top.tag === tag) out.push("</li>")
+      else out.push("</li></" + lists.pop().tag + ">")
+    }
+
+    while (lists.length < depth) {
+      out.push("<" + tag + ">")
+      lists.push({ tag, fresh: true })
+    }
+
+    out.push("<li>")
+    lists[lists.length - 1].fresh = true
+  }
+
+  private closeDeflist() {
+    this._out.push("</dl>")
+    this._inDeflist = false
+  }
+
+  /** make a unique anchor name for headings */
+  makeSlug(text: string) {
+    var slug = slugify(text)
+    if (slug in this._slugCount) slug += "-" + (++this._slugCount[slug])
+    else this._slugCount[slug] = 0
+    return slug
+  }
+
+  /** render table, from the header row `fromLine` to the last row `toLine` */
+  renderTable(fromLine: number, toLine: number): string {
+    const lines = this.lines
+    const columns = lines[fromLine].tableColumns || []
+    var html = "<table>"
+
+    for (let i = fromLine; i <= toLine; i++) {
+      if (i === fromLine + 1) continue // the |---|---| row
+
+      const tag = (i === fromLine) ? "th" : "td"
+      const cells = this.splitTableRow(lines[i].tokens)
+
+      if (i === fromLine) html += "<thead>"
+      else if (i === fromLine + 2) html += "<tbody>"
+
+      html += "<tr>"
+      for (let j = 0; j < cells.length; j++) {
+        const align = /^(?:left|center|right)$/.test(columns[j]) ? ` style="text-align: ${columns[j]}"` : "" // not "default"
+        html += `<${tag}${align}>${this.renderInline(cells[j]).trim()}</${tag}>`
+      }
+      html += "</tr>"
+
+      if (i === fromLine) html += "</thead>"
+    }
+
+    if (toLine > fromLine + 1) html += "</tbody>"
+    return html + "</table>"
+  }
+
+  splitTableRow(tokens: ExportToken[]): ExportToken[][] {
+    var cells: ExportToken[][] = [[]]
+    for (let i = 0; i < tokens.length; i++) {
+      const token = tokens[i]
+      if (/\bhmd-table-sep\b/.test(token.type)) {
+        // "|" at the beginning or the end of row doesn't make a cell
+        if (/\bhmd-table-sep-dummy\b/.test(token.type) && i === 0) continue
+        cells.push([])
+      } else {
+        cells[cells.length - 1].push(token)
+      }
+    }
+
+    var lastCell = cells[cells.length - 1]
+    if (cells.length > 1 && lastCell.every(t => !/\S/.test(t.string))) cells.pop()
+    return cells
+  }
+
+  /** render inline tokens, like emphasis, links, math etc. */
+  renderInline(tokens: ExportToken[]): string {
+    const r = this.renderers
+    var html = ""
+
+    /** currently opened tags, like "strong", "em" */
+    var openTags: string[] = []
+    const updateTags = (type: string) => {
+      var wanted: string[] = []
+      if (/\bstrong\b/.test(type)) wanted.push("strong")
+      if (/\bem\b/.test(type)) wanted.push("em")
+      if (/\bstrikethrough\b/.test(type)) wanted.push("del")
+
+      var keep = 0
+      while (keep < openTags.length && wanted.indexOf(openTags[keep]) !== -1) keep++
+      while (openTags.length > keep) html += "</" + openTags.pop() + ">"
+      for (let i = 0; i < wanted.length; i++) {
+        if (openTags.indexOf(wanted[i]) !== -1) continue
+        html += "<" + wanted[i] + ">"
+        openTags.push(wanted[i])
+      }
+    }
+
+    /** find the first token since `from`, whose type matches */
+    const findToken = (from: number, re: RegExp) => {
+      for (let i = from; i < tokens.length; i++) if (re.test(tokens[i].type)) return i
+      return -1
+    }
+    const joinTokens = (from: number, to: number) => tokens.slice(from, to).map(t => t.string).join("")
+
+    for (let i = 0; i < tokens.length; i++) {
+      const token = tokens[i]
+      const type = token.type
+      var end: number
+
+      if (!/\bformatting\b/.test(type) || /\bformatting-(?:math-begin|image|link|link-string|wikilink|emoji|hashtag|code|task)\b/.test(type)) {
+        updateTags(type)
+      }
+
+      if (/\bformatting-math-begin\b/.test(type) && (end = findToken(i + 1, /\bformatting-math-end\b/)) !== -1) {
+        // $math$ or $$math$$
+        html += r.math(joinTokens(i + 1, end).trim(), /\bmath-2\b/.test(type), this)
+        i = end
+      } else if (/\bformatting-emoji\b/.test(type)) {
+        html += r.emoji(token.string, this)
+      } else if (/\bhashtag-begin\b/.test(type) && (end = findToken(i, /\bhashtag-end\b/)) !== -1) {
+        html += r.hashtag(joinTokens(i, end + 1).replace(/^#|#$/g, "").replace(/\\(.)/g, "$1"), this)
+        i = end
+      } else if (/\bformatting-code\b/.test(type) && (end = findToken(i + 1, /\bformatting-code\b/)) !== -1) {
+        html += r.code(joinTokens(i + 1, end).trim(), this)
+        i = end
+      } else if (/\bformatting-task\b/.test(type)) {
+        html += r.task(/x/i.test(token.string), this)
+      } else if (/\bformatting-wikilink\b/.test(type) && (end = findToken(i + 1, /\bformatting-wikilink\b/)) !== -1) {
+        // [[Page|alias]]
+        const page = joinTokens(i + 1, end)
+        let alias = ""
+        if (tokens[end].string === "|") {
+          let end2 = findToken(end + 1, /\bformatting-wikilink\b/)
+          alias = joinTokens(end + 1, end2)
+          end = end2
+        }
+        html += r.wikilink(page.trim(), alias.trim(), this)
+        i = end
+      } else if (/\bhmd-html-begin\b/.test(type) && (end = findToken(i, /\bhmd-html-end\b/)) !== -1) {
+        html += r.html(joinTokens(i, end + 1), this)
+        i = end
+      } else if (/\bformatting-image\b/.test(type) && /\bimage-marker\b/.test(type)) {
+        // ![alt](url "title")
+        const altEnd = findToken(i + 2, /\bformatting-image\b/)
+        const next = tokens[altEnd + 1]
+        if (altEnd !== -1 && next && next.string === "(" && (end = findToken(altEnd + 2, /\bformatting-link-string\b/)) !== -1) {
+          const target = parseLinkTarget(joinTokens(altEnd + 2, end))
+          html += r.image(joinTokens(i + 2, altEnd), target.url, target.title, this)
+          i = end
+        } else {
+          html += r.text(token.string, this)
+        }
+      } else if (/\bhmd-footref\b/.test(type) && token.string === "[" && (end = findToken(i + 1, /\bformatting-link\b/)) !== -1) {
+        // [^footnote]
+        const name = joinTokens(i + 1, end).slice(1)
+        let index = this.footnoteOrder.indexOf(name) + 1
+        if (!index) index = this.footnoteOrder.push(name)
+        html += r.footref(name, index, this)
+        i = end
+      } else if (/\bformatting-link\b/.test(type) && token.string === "[" && (end = findToken(i + 1, /\bformatting-link\b/)) !== -1) {
+        // [text](url) or [text][ref] or [ref]
+        const next = tokens[end + 1]
+        let target: { url: string, title: string } = null
+        let end2 = end
+
+        if (next && /\bformatting-link-string\b/.test(next.type) && (end2 = findToken(end + 2, /\bformatting-link-string\b/)) !== -1) {
+          const targetText = joinTokens(end + 2, end2)
+          target = next.string === "(" ? parseLinkTarget(targetText) : this.links[(targetText || joinTokens(i + 1, end)).toLowerCase()]
+        } else {
+          end2 = end
+          target = this.links[joinTokens(i + 1, end).toLowerCase()]
+        }
+
+        if (target) html += r.link(this.renderInline(tokens.slice(i + 1, end)), target.url, target.title, this)
+        else html += r.text(joinTokens(i, end2 + 1), this)
+        i = end2
+      } else if (/\bformatting-link\b/.test(type) && token.string === "<" && (end = findToken(i + 1, /\bformatting-link\b/)) !== -1) {
+        // <http://example.com>
+        const url = joinTokens(i + 1, end)
+        html += r.link(r.text(url, this), url, "", this)
+        i = end
+      } else if (/\bformatting-(?:math-begin|math-end|image|link|link-string|wikilink|code)\b/.test(type)) {
+        // unmatched markers, eg. the "`" of unclosed code span
+        html += r.text(token.string, this)
+      } else if (/\bformatting(?:-escape)?\b/.test(type)) {
+        // markups like ** and the \ of escaped chars
+        continue
+      } else {
+        html += r.text(token.string, this)
+      }
+    }
+
+    updateTags("")
+    return html
+  }
+
+  /** render `[TOC]` */
+  renderTOC(): string {
+    var html = ""
+    var level = 0
+    var headings = this.headings
+    var baseLevel = Math.min(7, ...headings.map(h => h.level))
+
+    for (let i = 0; i < headings.length; i++) {
+      const h = headings[i]
+      const hLevel = h.level - baseLevel + 1
+
+      if (hLevel > level) {
+        while (level < hLevel) { html += "<ul><li>"; level++ }
+      } else {
+        html += "</li>"
+        while (level > hLevel) { html += "</ul></li>"; level-- }
+        html += "<li>"
+      }
+
+      html += `<a href="#${escapeHTML(h.slug)}">${escapeHTML(h.text)}</a>`
+    }
+
+    while (level > 0) { html += "</li></ul>"; level-- }
+    return `<nav class="toc">${html}</nav>`
+  }
+
+  /** render all referred footnotes */
+  renderFootnotes(): string {
+    var order = this.footnoteOrder
+    if (!order.length) return ""
+
+    var items: string[] = []
+    for (let i = 0; i < order.length; i++) {
+      // note: new footnotes might be referred while rendering
+      const name = order[i]
+      const tokens = this.footnotes[name] || []
+      items.push(this.renderers.footnote(name, i + 1, this.renderInline(tokens).trim(), this))
+    }
+
+    return `\n<section class="footnotes"><ol>\n${items.join("\n")}\n</ol></section>`
+  }
+}
+
+/** check if tokens are just one `$$ display math $$` */
+function isDisplayMathOnly(tokens: ExportToken[]) {
+  var first = tokens[0].type, last = tokens[tokens.length - 1].type
+  if (!/\bformatting-math-begin\b/.test(first) || !/\bmath-2\b/.test(first) || !/\bformatting-math-end\b/.test(last)) return false
+  for (let i = 1; i < tokens.length - 1; i++) {
+    if (/\bformatting-math-end\b/.test(tokens[i].type)) return false
+  }
+  return true
+}
+
+/** parse `url "title"` */
+function parseLinkTarget(text: string): { url: string, title: string } {
+  var mat = text.trim().match(/^<?([^\s>]*)>?(?:\s+["'(](.*)["')])?$/)
+  if (!mat) return { url: text.trim(), title: "" }
+  return { url: mat[1], title: mat[2] || "" }
+}
+
+/**
+ * Convert Markdown to HTML, with HyperMD mode
+ *
+ * @param options mode options, renderers etc. If `options.cm` is set, its mode options will be used.
+ */
+export function exportHTML(markdown: string, options?: Partial<ExportOptions>): string {
+  var opts: ExportOptions = { ...defaultExportOptions, ...options }
+  if (options && options.cm && !("mode" in options)) {
+    opts.mode = options.cm.getOption("mode")
+    opts.tabSize = options.cm.getOption("tabSize")
+  }
+
+  var exporter = new HTMLExporter(opts)
+  return exporter.export(markdown)
+}
+
+//#endregion
+
+/********************************************************************************** */
+//#region CodeMirror Extension
+// add methods to all CodeMirror editors
+
+// every codemirror editor will have these member methods:
+export const Extensions = {
+  /**
+   * Export the document to HTML.
+   *
+   * The editor's mode options, MathRenderer and EmojiRenderer will be used.
+   *
+   * @param renderers optional. custom renderers for some kinds of token
+   */
+  hmdExportHTML(this: cm_t, renderers?: Partial<HTMLRenderers>): string {
+    return exportHTML(this.getValue(), { cm: this, renderers: renderers || {} })
+  }
+}
+
+export type ExtensionsType = typeof Extensions
+declare global { namespace HyperMD { interface Editor extends ExtensionsType { } } }
+
+for (var name in Extensions) {
+  CodeMirror.defineExtension(name, Extensions[name])
+}
+
+//#endregion
@@ -0,0 +1,187 @@
+// HyperMD, copyright (c) by laobubu
+// Distributed under an MIT license: http://laobubu.net/HyperMD/LICENSE
+//
+// DESCRIPTION: Fold callout headers ( > [!NOTE] and !!! note "Title" ) into icon and title
+//
+// Note: callout syntax must be enabled by `callout: true` in mode options
+//
+
+import * as CodeMirror from 'codemirror'
+import { Position } from 'codemirror'
+import { Addon, suggestedEditorConfig } from '../core'
+import { cm_t } from '../core/type'
+import { registerFolder, breakMark, FolderFunc, RequestRangeResult } from './fold'
+
+/********************************************************************************** */
+
+/**
+ * @param kind callout type in lower case, eg. "note" "warning"
+ * @param title the title, or a capitalized kind if title is omitted
+ * @param icon from `icons` option. might be empty
+ */
+export type CalloutRenderer = (kind: string, title: string, icon: string) => HTMLElement;
+
+export const defaultIcons: Record<string, string> = {
+  note: "ℹ️", info: "ℹ️", abstract: "📋", summary: "📋", todo: "☑️",
+  tip: "💡", hint: "💡", important: "❗", success: "✅", question: "❓",
+  warning: "⚠️", caution: "🔥", attention: "⚠️", failure: "❌", danger: "⚡",
+  error: "❌", bug: "🐞", example: "📝", quote: "💬",
+}
+
+export const defaultRenderer: CalloutRenderer = (kind, title, icon) => {
+  var el = document.createElement("span")
+  el.className = "hmd-callout-title-widget hmd-callout-" + kind
+
+  var iconEl = document.createElement("span")
+  iconEl.className = "hmd-callout-icon"
+  iconEl.textContent = icon
+  el.appendChild(iconEl)
+
+  var titleEl = document.createElement("span")
+  titleEl.className = "hmd-callout-title"
+  titleEl.textContent = title
+  el.appendChild(titleEl)
+
+  return el
+}
+
+/**
+ * Extract kind and title from a callout header, which starts with `[!NOTE]` or `!!! note`
+ */
+export function parseCalloutHeader(text: string): { kind: string, title: string } {
+  var mat = text.match(/^\[!([\w-]+)\][+-]?[ \t]*(.*?)\s*$/) || text.match(/^(?:!!!|\?\?\?\+?)[ \t]+([\w-]+)(?:[ \t]+"([^"]*)")?/)
+  if (!mat) return null
+
+  var kind = mat[1].toLowerCase()
+  var title = mat[2] || (kind.charAt(0).toUpperCase() + kind.slice(1))
+  return { kind, title }
+}
+
+/********************************************************************************** */
+//#region Folder
+/**
+ * Detect if a token is the beginning of callout header, then fold the whole header
+ *
+ * @see FolderFunc in ./fold.ts
+ */
+export const CalloutFolder: FolderFunc = (stream, token) => {
+  if (!token.type || !/\bhmd-callout-begin\b/.test(token.type)) return null
+
+  const cm = stream.cm
+  const from: Position = { line: stream.lineNo, ch: token.start }
+  const to: Position = { line: stream.lineNo, ch: stream.line.text.length }
+
+  var header = parseCalloutHeader(stream.line.text.slice(token.start))
+  if (!header) return null
+
+  const reqAns = stream.requestRange(from, to)
+  if (reqAns !== RequestRangeResult.OK) return null
+
+  // now we are ready to fold and render!
+
+  var marker = getAddon(cm).foldCallout(header.kind, header.title, from, to)
+  return marker
+}
+//#endregion
+
+registerFolder("callout", CalloutFolder, true)
+
+/********************************************************************************** */
+//#region Addon Options
+
+export interface Options extends Addon.AddonOptions {
+  /**
+   * Icons for each callout type. Types not listed here will use the icon of "note"
+   *
+   * @example { "warning": "🚧" }
+   */
+  icons: Record<string, string>
+
+  /**
+   * A CalloutRenderer function, which creates the widget with icon and title.
+   *
+   * Note that if CalloutRenderer returns null, the folding process will be aborted.
+   */
+  renderer: CalloutRenderer
+}
+
+export const defaultOption: Options = {
+  icons: defaultIcons,
+  renderer: defaultRenderer,
+}
+
+export const suggestedOption: Partial<Options> = {
+
+}
+
+export type OptionValueType = Partial<Options> | CalloutRenderer;
+
+declare global {
+  namespace HyperMD {
+    interface EditorConfiguration {
+      /**
+       * **NOTE**: to stop folding callouts, please modify `hmdFold.callout` instead.
+       *
+       * `hmdFoldCallout` is options for CalloutFolder, which also accepts
+       *
+       * - **CalloutRenderer** function
+       */
+      hmdFoldCallout?: OptionValueType
+    }
+  }
+}
+
+suggestedEditorConfig.hmdFoldCallout = suggestedOption
+
+CodeMirror.defineOption("hmdFoldCallout", defaultOption, function (cm: cm_t, newVal: OptionValueType) {
+
+  ///// convert newVal's type to `Partial<Options>`, if it is not.
+
+  if (!newVal) { newVal = {} }
+  else if (typeof newVal === 'function') { newVal = { renderer: newVal } }
+
+  ///// apply config and write new values into cm
+
+  var inst = getAddon(cm)
+  for (var k in defaultOption) {
+    inst[k] = (k in newVal) ? newVal[k] : defaultOption[k]
+  }
+})
+
+//#endregion
+
+/********************************************************************************** */
+//#region Addon Class
+
+export class FoldCallout implements Addon.Addon, Options {
+  icons: Record<string, string>;
+  renderer: CalloutRenderer;
+
+  constructor(public cm: cm_t) {
+    // options will be initialized to defaultOption when constructor is finished
+  }
+
+  foldCallout(kind: string, title: string, from: CodeMirror.Position, to: CodeMirror.Position) {
+    var cm = this.cm
+    var icons = this.icons
+    var icon = (kind in icons) ? icons[kind] : (icons["note"] || "")
+    var el = this.renderer(kind, title, icon)
+
+    if (!el || !el.tagName) return null
+
+    var marker = cm.markText(from, to, {
+      replacedWith: el,
+      clearOnEnter: true
+    })
+
+    el.addEventListener("click", breakMark.bind(this, cm, marker, 0), false)
+
+    return marker
+  }
+}
+
+//#endregion
+
+/** ADDON GETTER (Singleton Pattern): a editor can have only one FoldCallout instance */
+export const getAddon = Addon.Getter("FoldCallout", FoldCallout, defaultOption /** if has options */)
+declare global { namespace HyperMD { interface HelperCollection { FoldCallout?: FoldCallout } } }
@@ -0,0 +1,370 @@
+// HyperMD, copyright (c) by laobubu
+// Distributed under an MIT license: http://laobubu.net/HyperMD/LICENSE
+//
+// DESCRIPTION: Render fenced code blocks with custom renderers (eg. mermaid, plantuml). Works with *fold* addon.
+//
+// Renderers are registered via `registerRenderer`, keyed by the info string of code blocks.
+// Then enable / disable them for each editor with `hmdFoldCode` option.
+//
+
+import * as CodeMirror from 'codemirror'
+import { Addon, tryToRun, suggestedEditorConfig } from '../core'
+import { TextMarker, Position, LineWidget } from 'codemirror'
+import { cm_t } from '../core/type'
+import { HyperMDState } from '../mode/hypermd'
+import { registerFolder, breakMark, FolderFunc, RequestRangeResult, getAddon as getFoldAddon } from './fold'
+
+const DEBUG = false
+
+/********************************************************************************** */
+//#region CodeRenderer declaration
+
+/** Information of a folded code block. A CodeRenderer renders things into `el` */
+export interface FoldInfo {
+  readonly editor: cm_t
+
+  /** the language, in lower case. eg. "mermaid" */
+  readonly lang: string
+
+  /** the whole info string after the opening fence. eg. "mermaid theme=dark" */
+  readonly info: string
+
+  /** the container, which is inside a line widget */
+  readonly el: HTMLElement
+
+  readonly marker: TextMarker
+  readonly lineWidget: LineWidget
+
+  /** call this if the size of rendered content is changed */
+  changed(): void
+
+  /** unfold, and move the cursor into the code block */
+  break(): void
+
+  /** a callback when the code block is unfolded. Renderers may set it to release resources */
+  onRemove: () => void
+}
+
+/**
+ * Render code into `info.el`.
+ *
+ * Rendering can be asynchronous. Once finished, call `info.changed()` to update the widget's size.
+ *
+ * @param code content of the code block, without fences
+ * @returns `false` if failed to render, and the code block will be unfolded
+ */
+export type CodeRenderer = (code: string, info: FoldInfo) => void | false
+
+export interface CodeRendererOptions {
+  /** the name, used in `hmdFoldCode` option. eg. "mermaid" */
+  name: string
+
+  /**
+   * Which languages to render:
+   *
+   * - a string: the language name, case-insensitive
+   * - a RegExp, or a function: test the lower-cased language name
+   */
+  pattern: string | RegExp | ((lang: string) => boolean)
+
+  renderer: CodeRenderer
+
+  /**
+   * Indicate that if the renderer is ready to execute, eg. a third-party library is loaded.
+   * If not ready, HyperMD will retry a few times later.
+   *
+   * Omit this if always ready.
+   */
+  isReady?: () => boolean
+
+  /**
+   * - `"replace"` (default) hide the code, only show the rendered result
+   * - `"below"` keep the code visible, and show the rendered result below it
+   */
+  placement?: "replace" | "below"
+
+  /** enable this renderer in suggestedEditorConfig */
+  suggested?: boolean
+}
+
+//#endregion
+
+/********************************************************************************** */
+//#region CodeRenderer Registry
+
+export var rendererRegistry: Record<string, CodeRendererOptions> = {}
+
+/**
+ * Add a CodeRenderer to the System CodeRenderer Registry
+ *
+ * @param force if a renderer with same name is already exists, overwrite it. (dangerous)
+ */
+export function registerRenderer(options: CodeRendererOptions, force?: boolean) {
+  var name = options.name
+  var registry = rendererRegistry
+
+  if (name in registry && !force) throw new Error(`CodeRenderer ${name} already registered`)
+
+  defaultOption[name] = false
+  suggestedOption[name] = !!options.suggested
+  registry[name] = options
+}
+
+//#endregion
+
+/********************************************************************************** */
+//#region Folder
+/**
+ * Detect if a token is the opening fence of a code block, and there is a renderer for its language
+ *
+ * @see FolderFunc in ./fold.ts
+ */
+export const CodeFolder: FolderFunc = (stream, token) => {
+  const fenceRE = /\bformatting-code-block\b/
+  if (!token.type || !fenceRE.test(token.type)) return null
+
+  const cm = stream.cm
+  const lineNo = stream.lineNo
+
+  const state = cm.getStateAfter(lineNo) as HyperMDState
+  if (state.code !== -1) return null // not a opening fence
+
+  const infoMatch = token.string.match(/^(?:`{3,}|~{3,})[ \t]*(.*?)\s*$/)
+  if (!infoMatch || !infoMatch[1]) return null
+
+  const info = infoMatch[1]
+  const lang = info.split(/\s/)[0].toLowerCase()
+
+  const foldCodeAddon = getAddon(cm)
+  const rendererOptions = foldCodeAddon.findRenderer(lang)
+  if (!rendererOptions) return null
+
+  // find the closing fence. unclosed code blocks are not folded
+
+  const end_info = stream.findNext(fenceRE, true)
+  if (!end_info) return null
+
+  const from: Position = { line: lineNo, ch: token.start }
+  const to: Position = { line: end_info.lineNo, ch: end_info.token.end }
+
+  const reqAns = stream.requestRange(from, to)
+  if (reqAns !== RequestRangeResult.OK) return null
+
+  // extract the code. remove indentation of the fence, if it's nested in a list
+
+  var lines: string[] = []
+  for (let i = lineNo + 1; i < end_info.lineNo; i++) {
+    const text = cm.getLine(i)
+    lines.push(text.slice(Math.min(token.start, /^ */.exec(text)[0].length)))
+  }
+
+  return foldCodeAddon.fold(rendererOptions, lines.join("\n"), lang, info, from, to)
+}
+//#endregion
+
+registerFolder("code", CodeFolder, true)
+
+/********************************************************************************** */
+//#region Addon Options
+
+export type Options = Record<string, boolean>
+
+export const defaultOption: Options = {
+  /* will be populated by registerRenderer() */
+}
+
+export const suggestedOption: Options = {
+  /* will be populated by registerRenderer() */
+}
+
+export type OptionValueType = Options | boolean;
+
+declare global {
+  namespace HyperMD {
+    interface EditorConfiguration {
+      /**
+       * Enable/disable registered CodeRenderers, for current editor instance.
+       *
+       * **NOTE**: to stop folding code blocks, please modify `hmdFold.code` instead.
+       *
+       * `hmdFoldCode` accepts:
+       *
+       * 1. `true` -- only enable suggested renderers
+       * 2. `false` -- disable all renderers
+       * 3. `{ [RendererName]: boolean }` -- enable / disable renderers
+       *    - Note: registered but not configured renderers will be disabled
+       *
+       * @example { mermaid: true, plantuml: false }
+       */
+      hmdFoldCode?: OptionValueType
+    }
+  }
+}
+
+suggestedEditorConfig.hmdFoldCode = suggestedOption
+
+CodeMirror.defineOption("hmdFoldCode", defaultOption, function (cm: cm_t, newVal: OptionValueType) {
+
+  ///// convert newVal's type to `Record<string, boolean>`, if it is not.
+
+  if (!newVal || typeof newVal === "boolean") {
+    newVal = newVal ? suggestedOption : defaultOption
+  }
+
+  ///// apply config
+  var inst = getAddon(cm)
+  for (const name in rendererRegistry) {
+    inst.setStatus(name, newVal[name])
+  }
+})
+
+//#endregion
+
+/********************************************************************************** */
+//#region Addon Class
+
+export class FoldCode implements Addon.Addon {
+  /**
+   * stores renderer status for current editor
+   * @private To enable/disable renderers, use `setStatus()`
+   */
+  private _enabled: Record<string, boolean> = {}
+
+  /** renderers' output goes here */
+  public folded: Record<string, FoldInfo[]> = {}
+
+  constructor(public cm: cm_t) {
+  }
+
+  /** enable/disable one renderer, in current editor */
+  setStatus(name: string, enabled: boolean) {
+    if (!(name in rendererRegistry)) return
+
+    if (!this._enabled[name] !== !enabled) {
+      this._enabled[name] = !!enabled
+
+      if (enabled) getFoldAddon(this.cm).startFold()
+      else this.clear(name)
+    }
+  }
+
+  /** find an enabled renderer for the language. returns null if not found */
+  findRenderer(lang: string): CodeRendererOptions {
+    for (const name in rendererRegistry) {
+      if (!this._enabled[name]) continue
+
+      const options = rendererRegistry[name]
+      const pattern = options.pattern
+      const matched =
+        (typeof pattern === "string") ? pattern.toLowerCase() === lang :
+          (pattern instanceof RegExp) ? pattern.test(lang) :
+            pattern(lang)
+
+      if (matched) return options
+    }
+    return null
+  }
+
+  /**
+   * Fold the code block, and render it with the renderer
+   *
+   * @param code content of the code block, without fences
+   * @param from position of the opening fence
+   * @param to end of the closing fence
+   */
+  fold(options: CodeRendererOptions, code: string, lang: string, info: string, from: Position, to: Position): TextMarker {
+    const cm = this.cm
+    const isReplacing = options.placement !== "below"
+
+    var el = document.createElement("div")
+    el.className = "hmd-fold-code-content hmd-fold-code-" + options.name
+
+    var marker: TextMarker
+    if (isReplacing) {
+      var stub = document.createElement("span")
+      stub.className = "hmd-fold-code-stub"
+      stub.textContent = lang
+
+      marker = cm.markText(from, to, {
+        replacedWith: stub,
+        clearOnEnter: true,
+      })
+
+      stub.addEventListener("click", () => breakMark(cm, marker), false)
+      el.addEventListener("click", () => breakMark(cm, marker), false)
+    } else {
+      marker = cm.markText(from, to, {
+        className: "hmd-fold-code-source",
+        inclusiveLeft: true,
+        inclusiveRight: true,
+        clearOnEnter: true,
+      })
+    }
+
+    // when replacing, lines after `from.line` are hidden, so the widget must be attached to the first line
+    var lineWidget = cm.addLineWidget(isReplacing ? from.line : to.line, el, {
+      above: false,
+      coverGutter: false,
+      noHScroll: false,
+      showIfHidden: false,
+    })
+
+    var foldInfo: FoldInfo = {
+      editor: cm,
+      lang,
+      info,
+      el,
+      marker,
+      lineWidget,
+      changed: () => { lineWidget.changed() },
+      break: () => { breakMark(cm, marker) },
+      onRemove: null,
+    }
+
+    var folded = this.folded[options.name] || (this.folded[options.name] = [])
+    folded.push(foldInfo)
+
+    marker.on("clear", () => {
+      var idx = folded.indexOf(foldInfo)
+      if (idx !== -1) folded.splice(idx, 1)
+
+      lineWidget.clear()
+      if (typeof foldInfo.onRemove === "function") foldInfo.onRemove()
+    })
+
+    tryToRun(() => {
+      if (!marker.find()) return true // already unfolded
+
+      if (DEBUG) console.log("[FoldCode] Trying to render ", lang, from)
+      if (options.isReady && !options.isReady()) return false
+
+      if (options.renderer(code, foldInfo) === false) marker.clear()
+      else lineWidget.changed()
+      return true
+    }, 5, () => { // if failed 5 times...
+      marker.clear()
+      if (DEBUG) console.log("[FoldCode] renderer always not ready. failed to render ", lang, from)
+    })
+
+    return marker
+  }
+
+  /** Unfold code blocks rendered by one renderer */
+  clear(name: string) {
+    var folded = this.folded[name]
+    if (!folded || !folded.length) return
+    var info: FoldInfo
+    while (info = folded.pop()) info.marker.clear()
+  }
+
+  /** Unfold all code blocks */
+  clearAll() {
+    for (const name in this.folded) this.clear(name)
+  }
+}
+
+//#endregion
+
+/** ADDON GETTER (Singleton Pattern): a editor can have only one FoldCode instance */
+export const getAddon = Addon.Getter("FoldCode", FoldCode)
+declare global { namespace HyperMD { interface HelperCollection { FoldCode?: FoldCode } } }
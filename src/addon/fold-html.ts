@@ -13,33 +13,226 @@ import './read-link'
 
 /********************************************************************************** */
 /**
- * Before folding HTML, check its security and avoid XSS attack! Returns true if safe.
+ * Before folding HTML, check if it's worth folding. Returns true if ok.
+ *
+ * Note: unsafe tags and attributes will be removed later, with `sanitizePolicy`
  */
 export type CheckerFunc = (html: string, pos: Position, cm: cm_t) => boolean
 
 export var defaultChecker: CheckerFunc = (html) => {
-  // TODO: read https://www.owasp.org/index.php/XSS_Filter_Evasion_Cheat_Sheet
-
   if (/^<(?:br)/i.test(html)) return false // check first element...
-  if (/<(?:script|style|link|meta)/i.test(html)) return false // don't allow some tags
-  if (/\son\w+\s*=/i.test(html)) return false // don't allow `onclick=` etc.
-  if (/src\s*=\s*["']?javascript:/i.test(html)) return false // don't allow `src="javascript:` etc.
   return true
 }
 
+/********************************************************************************** */
+//#region Sanitizer
+
+/**
+ * Allow-list of HTML sanitizer. All names are in lower case.
+ */
+export interface SanitizePolicy {
+  /**
+   * allowed tags. Other elements will be replaced by their children
+   *
+   * Note: raw text elements like `iframe` shall NOT be allowed. Their content may become HTML when parsed again.
+   */
+  tags: string[]
+
+  /** elements that will be removed with their children. Elements not in HTML namespace (eg. SVG) are always removed */
+  dropTags: string[]
+
+  /**
+   * allowed attributes of each tag. Use `"*"` as the key for attributes of all tags
+   *
+   * Note: event handlers like `onclick` are never allowed
+   */
+  attributes: Record<string, string[]>
+
+  /** attributes that contain URLs, whose scheme must be in `urlSchemes`. Relative URLs are always allowed */
+  urlAttributes: string[]
+
+  /** allowed URL schemes, eg. "https" */
+  urlSchemes: string[]
+
+  /** allowed CSS properties in `style` attributes */
+  styleProperties: string[]
+}
+
+export var defaultSanitizePolicy: SanitizePolicy = {
+  tags: [
+    "a", "abbr", "audio", "b", "bdi", "bdo", "blockquote", "br", "caption", "center", "cite", "code", "col", "colgroup",
+    "dd", "del", "details", "dfn", "div", "dl", "dt", "em", "figcaption", "figure", "font",
+    "h1", "h2", "h3", "h4", "h5", "h6", "hr", "i", "img", "input", "ins", "kbd", "li", "mark",
+    "ol", "p", "picture", "pre", "q", "rp", "rt", "ruby", "s", "samp", "small", "source", "span", "strike", "strong",
+    "sub", "summary", "sup", "table", "tbody", "td", "tfoot", "th", "thead", "time", "tr", "tt", "u", "ul", "var", "video", "wbr",
+  ],
+  dropTags: [
+    "script", "style", "link", "meta", "base", "title", "head", "template", "noscript",
+    "iframe", "xmp", "noembed", "noframes", "plaintext", "svg", "math",
+    "object", "embed", "applet", "frame", "frameset", "form", "button", "select", "textarea",
+  ],
+  attributes: {
+    "*": ["title", "class", "style", "align", "dir", "lang", "width", "height"],
+    a: ["href", "target", "name", "rel"],
+    img: ["src", "alt", "srcset"],
+    audio: ["src", "controls", "loop", "muted"],
+    video: ["src", "controls", "loop", "muted", "poster"],
+    source: ["src", "srcset", "type", "media"],
+    input: ["type", "checked", "disabled"],
+    details: ["open"],
+    ol: ["start", "type", "reversed"],
+    li: ["value"],
+    td: ["colspan", "rowspan"],
+    th: ["colspan", "rowspan", "scope"],
+    font: ["color", "size", "face"],
+    time: ["datetime"],
+  },
+  urlAttributes: ["href", "src", "srcset", "poster"],
+  urlSchemes: ["http", "https", "mailto", "ftp"],
+  styleProperties: [
+    "color", "background-color", "font-size", "font-weight", "font-style", "font-family", "text-align", "text-decoration",
+    "vertical-align", "width", "height", "max-width", "max-height", "margin", "padding", "border", "border-radius", "display", "float",
+  ],
+}
+
+/** check if a URL is allowed. Relative URLs are always allowed */
+function isURLAllowed(url: string, policy: SanitizePolicy) {
+  url = url.replace(/[\x00-\x20]+/g, "") // browsers ignore spaces and control chars, eg. "java\tscript:"
+  var scheme = /^([a-z][a-z\d+.\-]*):/i.exec(url)
+  return !scheme || policy.urlSchemes.indexOf(scheme[1].toLowerCase()) !== -1
+}
+
+/** filter CSS declarations. Returns the new `style` value */
+function sanitizeStyle(style: string, policy: SanitizePolicy) {
+  var ans: string[] = []
+  var decls = style.split(";")
+  for (let i = 0; i < decls.length; i++) {
+    const mat = /^\s*([\w\-]+)\s*:([^]*)$/.exec(decls[i])
+    if (!mat) continue
+
+    const name = mat[1].toLowerCase(), value = mat[2].trim()
+    if (policy.styleProperties.indexOf(name) === -1) continue
+    if (/url\s*\(|expression\s*\(|javascript:|[\\<>]/i.test(value)) continue
+
+    ans.push(name + ": " + value)
+  }
+  return ans.join("; ")
+}
+
+/** sanitize attributes of an allowed element */
+function sanitizeAttributes(el: Element, policy: SanitizePolicy) {
+  const tagName = el.tagName.toLowerCase()
+  const allowed = (policy.attributes["*"] || []).concat(policy.attributes[tagName] || [])
+  const attrs = el.attributes
+
+  for (let i = attrs.length - 1; i >= 0; i--) {
+    const name = attrs[i].name.toLowerCase()
+    const value = attrs[i].value
+    var ok = allowed.indexOf(name) !== -1 && !/^on/.test(name)
+
+    if (ok && policy.urlAttributes.indexOf(name) !== -1) {
+      // srcset is a comma-separated list of "url descriptor"
+      const urls = name === "srcset" ? value.split(",").map(x => x.trim().split(/\s+/)[0]) : [value]
+      for (let j = 0; ok && j < urls.length; j++) ok = isURLAllowed(urls[j], policy)
+    }
+
+    if (ok && name === "style") {
+      const style = sanitizeStyle(value, policy)
+      if (style) el.setAttribute(name, style)
+      else ok = false
+    }
+
+    if (!ok) el.removeAttribute(attrs[i].name)
+  }
+}
+
+const htmlNamespace = "http://www.w3.org/1999/xhtml"
+
+/** sanitize children of a node, recursively */
+function sanitizeChildren(parent: Node, policy: SanitizePolicy) {
+  var child = parent.firstChild
+  while (child) {
+    const next = child.nextSibling
+
+    if (child.nodeType === Node.ELEMENT_NODE) {
+      const el = child as Element
+      const tagName = el.tagName.toLowerCase()
+
+      if (el.namespaceURI !== htmlNamespace || policy.dropTags.indexOf(tagName) !== -1) {
+        // SVG and MathML are parsed differently, which leads to mXSS
+        parent.removeChild(el)
+      } else if (policy.tags.indexOf(tagName) === -1) {
+        // unwrap the element, and check its children later
+        const first = el.firstChild
+        while (el.firstChild) parent.insertBefore(el.firstChild, el)
+        parent.removeChild(el)
+        if (first) { child = first; continue }
+      } else {
+        sanitizeAttributes(el, policy)
+        sanitizeChildren(el, policy)
+      }
+    } else if (child.nodeType !== Node.TEXT_NODE) {
+      parent.removeChild(child) // comments, processing instructions etc.
+    }
+
+    child = next
+  }
+}
+
+/** parse HTML with DOMParser, then sanitize it. Returns the `<body>` */
+function parseAndSanitize(html: string, policy: SanitizePolicy): HTMLElement {
+  var doc = new DOMParser().parseFromString(html, "text/html")
+  var body = doc.body
+  sanitizeChildren(body, policy || defaultSanitizePolicy)
+  return body
+}
+
+/**
+ * Parse HTML with DOMParser, remove disallowed elements and attributes, then returns the safe HTML.
+ *
+ * Disallowed elements are replaced by their children, unless listed in `policy.dropTags`
+ *
+ * @see sanitizeElement if the result will be rendered. It avoids parsing HTML again
+ */
+export function sanitizeHTML(html: string, policy?: SanitizePolicy): string {
+  return parseAndSanitize(html, policy).innerHTML
+}
+
+/**
+ * Parse HTML with DOMParser, remove disallowed elements and attributes, then returns the root element.
+ *
+ * The element belongs to an inert document. Insert it (or its clone) directly; serializing and parsing it again is unsafe.
+ *
+ * @returns `null` if the root element is removed
+ */
+export function sanitizeElement(html: string, policy?: SanitizePolicy): HTMLElement {
+  var root = parseAndSanitize(html, policy).firstChild
+  while (root && root.nodeType === Node.TEXT_NODE && !/\S/.test(root.nodeValue)) root = root.nextSibling
+  return (root && root.nodeType === Node.ELEMENT_NODE) ? root as HTMLElement : null
+}
+
+//#endregion
+
 /********************************************************************************** */
 
 /**
  * Something like `jQuery("<div>xxxx</div>")`, but serves for HyperMD's FoldHTML. You may returns `null` to stop folding.
  *
  * @param html only have one root element
+ * @param sanitized if `sanitizePolicy` is set, the sanitized root element. Use it instead of parsing `html`
  */
-export type RendererFunc = (html: string, pos: Position, cm: cm_t) => HTMLElement
+export type RendererFunc = (html: string, pos: Position, cm: cm_t, sanitized?: HTMLElement) => HTMLElement
 
 /**
- * Create HTMLElement from HTML string and do special process with HyperMD.ReadLink
+ * Create HTMLElement from HTML string (or use the sanitized element) and do special process with HyperMD.ReadLink
  */
-export var defaultRenderer: RendererFunc = (html: string, pos: Position, cm: cm_t): HTMLElement => {
+export var defaultRenderer: RendererFunc = (html: string, pos: Position, cm: cm_t, sanitized?: HTMLElement): HTMLElement => {
+  if (sanitized) {
+    let ans = document.importNode(sanitized, true) as HTMLElement
+    fixElements(ans, cm)
+    return ans
+  }
+
   var tagBegin = /^<(\w+)\s*/.exec(html)
   if (!tagBegin) return null
 
@@ -72,35 +265,38 @@ export var defaultRenderer: RendererFunc = (html: string, pos: Position, cm: cm_
     var innerHTML = html.slice(startCh, endCh)
     if (innerHTML) ans.innerHTML = innerHTML
 
-    // resolve relative URLs and change default behavoirs
+    fixElements(ans, cm)
+  }
 
-    visitElements([ans], (el) => {
-      const tagName = el.tagName.toLowerCase()
+  return ans
+}
 
-      if (tagName === 'a') {
-        // for links, if target not set, add target="_blank"
-        if (!el.getAttribute("target")) el.setAttribute("target", "_blank")
-      }
+/** resolve relative URLs and change default behavoirs */
+function fixElements(root: HTMLElement, cm: cm_t) {
+  visitElements([root], (el) => {
+    const tagName = el.tagName.toLowerCase()
 
-      // Then, resovle relative URLs
+    if (tagName === 'a') {
+      // for links, if target not set, add target="_blank"
+      if (!el.getAttribute("target")) el.setAttribute("target", "_blank")
+    }
 
-      const urlAttrs: string[] = ({
-        a: ["href"],
-        img: ["src"],
-        iframe: ["src"],
-      })[tagName];
+    // Then, resovle relative URLs
 
-      if (urlAttrs) {
-        for (let i = 0; i < urlAttrs.length; i++) {
-          const attr = urlAttrs[i]
-          const attrValue = el.getAttribute(attr)
-          if (attrValue) el.setAttribute(attr, cm.hmdResolveURL(attrValue))
-        }
-      }
-    })
-  }
+    const urlAttrs: string[] = ({
+      a: ["href"],
+      img: ["src"],
+      iframe: ["src"],
+    })[tagName];
 
-  return ans
+    if (urlAttrs) {
+      for (let i = 0; i < urlAttrs.length; i++) {
+        const attr = urlAttrs[i]
+        const attrValue = el.getAttribute(attr)
+        if (attrValue) el.setAttribute(attr, cm.hmdResolveURL(attrValue))
+      }
+    }
+  })
 }
 
 /********************************************************************************** */
@@ -142,16 +338,21 @@ export const HTMLFolder: FolderFunc = (stream, token) => {
   var addon = getAddon(cm)
   var html: string = cm.getRange(from, to)
 
-  if (!addon.checker(html, from, cm)) return null // security check
+  if (!addon.checker(html, from, cm)) return null
 
-  // security check pass!
+  var sanitized: HTMLElement = null
+  if (addon.sanitizePolicy) {
+    // security check. remove unsafe stuff
+    sanitized = sanitizeElement(html, addon.sanitizePolicy)
+    if (!sanitized) return null // the root element is removed
+  }
 
   const reqAns = stream.requestRange(from, to)
   if (reqAns !== RequestRangeResult.OK) return null
 
   // now we are ready to fold and render!
 
-  var marker = addon.renderAndInsert(html, from, to, inlineMode)
+  var marker = addon.renderAndInsert(html, from, to, inlineMode, sanitized)
   return marker
 }
 //#endregion
@@ -162,9 +363,18 @@ registerFolder("html", HTMLFolder, false)
 //#region Addon Options
 
 export interface Options extends Addon.AddonOptions {
-  /** Before folding HTML, check it to avoid XSS attack! Returns `true` if safe. */
+  /** Before folding HTML, check if it's worth folding. Returns `true` if ok. */
   checker: CheckerFunc
 
+  /**
+   * Before rendering HTML, remove unsafe elements and attributes to avoid XSS attack!
+   *
+   * Set to `null` to render HTML as it is. DO NOT do this unless `checker` does the security check.
+   *
+   * @see defaultSanitizePolicy
+   */
+  sanitizePolicy: SanitizePolicy
+
   /** A RendererFunc accepts HTML string (which has only one root node), renders it and returns the root element node */
   renderer: RendererFunc
 
@@ -177,6 +387,7 @@ export interface Options extends Addon.AddonOptions {
 
 export const defaultOption: Options = {
   checker: defaultChecker,
+  sanitizePolicy: defaultSanitizePolicy,
   renderer: defaultRenderer,
   stubText: "<HTML>",
   isolatedTagName: /^(?:div|pre|form|table|iframe|ul|ol|input|textarea|p|summary|a)$/i,
@@ -196,7 +407,7 @@ declare global {
        *
        * **NOTE**: to switch this feature off, please modify `hmdFold.html` instead.
        *
-       * You may provide a CheckerFunc to check if a HTML is safe to render.
+       * You may provide a CheckerFunc to check if a HTML shall be folded.
        */
       hmdFoldHTML?: OptionValueType
     }
@@ -240,6 +451,7 @@ export class FoldHTML implements Addon.Addon, Options {
   isolatedTagName: RegExp;
   stubText: string;
   checker: CheckerFunc;
+  sanitizePolicy: SanitizePolicy;
 
   constructor(public cm: cm_t) {
     // options will be initialized to defaultOption when constructor is finished
@@ -247,12 +459,14 @@ export class FoldHTML implements Addon.Addon, Options {
 
   /**
    * Render HTML, insert into editor and return the marker
+   *
+   * @param sanitized the sanitized root element, see `sanitizeElement`
    */
-  renderAndInsert(html: string, from: CodeMirror.Position, to: CodeMirror.Position, inlineMode?: boolean): CodeMirror.TextMarker {
+  renderAndInsert(html: string, from: CodeMirror.Position, to: CodeMirror.Position, inlineMode?: boolean, sanitized?: HTMLElement): CodeMirror.TextMarker {
     const cm = this.cm
 
     var stub = this.makeStub()
-    var el = this.renderer(html, from, cm)
+    var el = this.renderer(html, from, cm, sanitized)
     var breakFn = () => breakMark(cm, marker)
 
     if (!el) return null
@@ -0,0 +1,361 @@
+// HyperMD, copyright (c) by laobubu
+// Distributed under an MIT license: http://laobubu.net/HyperMD/LICENSE
+//
+// DESCRIPTION: Fold sections by heading, list items and fenced code blocks, with gutter markers
+//
+// This addon provides a range finder `CodeMirror.fold.hypermd` for CodeMirror's foldcode and foldgutter,
+// and commands `hmdFoldSection`, `hmdUnfoldAll` and `hmdFoldToLevel`
+//
+// When enabled, the `CodeMirror-foldgutter` gutter is added if `foldGutter` is not configured.
+// Remember to load `codemirror/addon/fold/foldgutter.css`
+//
+
+import * as CodeMirror from 'codemirror'
+import { Position } from 'codemirror'
+import { Addon, FlipFlop, suggestedEditorConfig } from '../core'
+import { cm_t } from '../core/type'
+import { HyperMDState } from '../mode/hypermd'
+
+import 'codemirror/addon/fold/foldcode'
+import 'codemirror/addon/fold/foldgutter'
+
+/********************************************************************************** */
+
+export type FoldRange = { from: Position, to: Position }
+
+const atxRE = /^ {0,3}(#{1,6})(?:[ \t]|$)/
+const setextRE = /^ {0,3}(=+|-+)[ \t]*$/
+const fenceRE = /^\s*(?:`{3,}|~{3,})/
+const listRE = /^\s*(?:[*+-]|\d+[.)])(?:[ \t]|$)/
+
+/**
+ * Guess the level of heading on the given line, by text only. Returns 0 if it can't be a heading.
+ *
+ * This is cheap, but lines in code blocks may be wrongly reported. Use `getHeadingLevel` to confirm
+ */
+function guessHeadingLevel(cm: cm_t, lineNo: number): number {
+  const text = cm.getLine(lineNo)
+  var tmp: RegExpMatchArray
+
+  if (tmp = text.match(atxRE)) return tmp[1].length
+  if (/\S/.test(text) && lineNo < cm.lastLine() && (tmp = cm.getLine(lineNo + 1).match(setextRE))) return tmp[1].charAt(0) === "=" ? 1 : 2
+
+  return 0
+}
+
+/**
+ * Get the level of heading on the given line. Returns 0 if it's not a heading.
+ *
+ * For Setext headings, only the text line counts. The `====` or `----` line is not a heading.
+ */
+export function getHeadingLevel(cm: cm_t, lineNo: number): number {
+  const guess = guessHeadingLevel(cm, lineNo)
+  if (!guess) return 0
+
+  const state = cm.getStateAfter(lineNo, true) as HyperMDState
+  if (atxRE.test(cm.getLine(lineNo))) return (state.header === guess && !state.setext) ? state.header : 0
+  return state.setext || 0
+}
+
+/** make a FoldRange from the end of line `from` to the end of line `to`. Returns null if nothing to fold */
+function makeRange(cm: cm_t, from: number, to: number): FoldRange {
+  if (to <= from) return null
+  return {
+    from: { line: from, ch: cm.getLine(from).length },
+    to: { line: to, ch: cm.getLine(to).length },
+  }
+}
+
+/** move `lineNo` upward until it's not a blank line, or reaches `minLine` */
+function skipBlankLinesUp(cm: cm_t, lineNo: number, minLine: number) {
+  while (lineNo > minLine && !/\S/.test(cm.getLine(lineNo))) lineNo--
+  return lineNo
+}
+
+/**
+ * Find the range of a section.
+ * A section starts with a heading, ends before next heading whose level is not deeper.
+ */
+function findSectionRange(cm: cm_t, lineNo: number): FoldRange {
+  const level = getHeadingLevel(cm, lineNo)
+  if (!level) return null
+
+  const lastLine = cm.lastLine()
+  const startLine = atxRE.test(cm.getLine(lineNo)) ? lineNo : (lineNo + 1) // for Setext, keep the "====" visible
+
+  var end = startLine + 1
+  for (; end <= lastLine; end++) {
+    // parsing is expensive, so only confirm lines that look like a heading of the same or higher level
+    const guess = guessHeadingLevel(cm, end)
+    if (!guess || guess > level) continue
+
+    const lv = getHeadingLevel(cm, end)
+    if (lv && lv <= level) break
+  }
+
+  return makeRange(cm, startLine, skipBlankLinesUp(cm, end - 1, startLine))
+}
+
+/**
+ * Find the range of a fenced code block. The closing fence is not included.
+ */
+function findCodeBlockRange(cm: cm_t, lineNo: number): FoldRange {
+  if (!fenceRE.test(cm.getLine(lineNo))) return null
+
+  const state = cm.getStateAfter(lineNo, true) as HyperMDState
+  if (state.code !== -1) return null // not a opening fence
+
+  if (lineNo > cm.firstLine()) {
+    const lastState = cm.getStateAfter(lineNo - 1, true) as HyperMDState
+    if (lastState.code === -1) return null // this is a closing fence
+  }
+
+  const lastLine = cm.lastLine()
+  var end = lineNo + 1
+  while (end <= lastLine && (cm.getStateAfter(end, true) as HyperMDState).code === -1) end++
+
+  return makeRange(cm, lineNo, end - 1)
+}
+
+/**
+ * Find the range of a list item, including its nested items and indented paragraphs.
+ */
+function findListItemRange(cm: cm_t, lineNo: number): FoldRange {
+  if (!listRE.test(cm.getLine(lineNo))) return null
+
+  const state = cm.getStateAfter(lineNo, true) as HyperMDState
+  if (state.list !== true || state.code === -1 || !state.listStack.length) return null
+
+  const indent = state.listStack[state.listStack.length - 1]
+  const tabSize = cm.getOption("tabSize")
+  const lastLine = cm.lastLine()
+
+  var end = lineNo
+  for (let i = lineNo + 1; i <= lastLine; i++) {
+    const text = cm.getLine(i)
+    if (!/\S/.test(text)) continue
+    if (CodeMirror.countColumn(text, text.search(/\S/), tabSize) < indent) break
+    end = i
+  }
+
+  return makeRange(cm, lineNo, end)
+}
+
+/**
+ * A range finder for CodeMirror's foldcode and foldgutter addons.
+ *
+ * Finds the section (by heading), fenced code block or list item that starts on `start.line`
+ *
+ * @example cm.setOption("foldOptions", { rangeFinder: CodeMirror.fold.hypermd })
+ */
+export function StructureRangeFinder(cm: cm_t, start: Position): FoldRange {
+  const lineNo = start.line
+  return (
+    findSectionRange(cm, lineNo) ||
+    findCodeBlockRange(cm, lineNo) ||
+    findListItemRange(cm, lineNo)
+  )
+}
+
+CodeMirror.registerHelper("fold", "hypermd", StructureRangeFinder)
+
+/********************************************************************************** */
+//#region CodeMirror Extension
+// add methods to all CodeMirror editors
+
+// every codemirror editor will have these member methods:
+export const Extensions = {
+  /**
+   * Fold or unfold the innermost section / list item / code block which contains the line
+   *
+   * @param lineNo optional. defaults to the cursor's line
+   */
+  hmdFoldSection(this: cm_t, lineNo?: number) {
+    if (typeof lineNo !== 'number') lineNo = this.getCursor().line
+
+    for (let i = lineNo; i >= this.firstLine(); i--) {
+      const range = StructureRangeFinder(this, { line: i, ch: 0 })
+      if (range && (i === lineNo || range.to.line >= lineNo)) {
+        this.foldCode({ line: i, ch: 0 }, { rangeFinder: StructureRangeFinder, scanUp: false })
+        return
+      }
+    }
+  },
+
+  /** Unfold everything folded by foldcode */
+  hmdUnfoldAll(this: cm_t) {
+    var marks = this.getAllMarks()
+    this.operation(() => {
+      for (let i = 0; i < marks.length; i++) {
+        if (marks[i]["__isFold"]) marks[i].clear()
+      }
+    })
+  },
+
+  /**
+   * Unfold everything, then fold all sections whose heading level is not less than `level`
+   *
+   * eg. `cm.hmdFoldToLevel(2)` keeps all `#` and `##` headings visible, while their content get folded.
+   */
+  hmdFoldToLevel(this: cm_t, level: number) {
+    const lastLine = this.lastLine()
+    this.operation(() => {
+      this.hmdUnfoldAll()
+
+      for (let i = this.firstLine(); i <= lastLine; i++) {
+        const lv = getHeadingLevel(this, i)
+        if (!lv || lv < level) continue
+
+        const range = findSectionRange(this, i)
+        if (!range) continue
+
+        this.foldCode({ line: i, ch: 0 }, { rangeFinder: () => range, scanUp: false }, "fold")
+        i = range.to.line // skip the folded part
+      }
+    })
+  },
+}
+
+export type ExtensionsType = typeof Extensions
+declare global { namespace HyperMD { interface Editor extends ExtensionsType { } } }
+
+for (var name in Extensions) {
+  CodeMirror.defineExtension(name, Extensions[name])
+}
+
+//#endregion
+
+/********************************************************************************** */
+//#region Commands
+
+Object.assign(CodeMirror.commands, {
+  hmdFoldSection: (cm: cm_t) => cm.hmdFoldSection(),
+  hmdUnfoldAll: (cm: cm_t) => cm.hmdUnfoldAll(),
+  hmdFoldToLevel: (cm: cm_t, level?: number) => {
+    if (!level) {
+      // use the level of current section
+      level = 1
+      for (let i = cm.getCursor().line; i >= cm.firstLine(); i--) {
+        const lv = getHeadingLevel(cm, i)
+        if (lv) { level = lv; break }
+      }
+    }
+    cm.hmdFoldToLevel(level)
+  },
+})
+
+//#endregion
+
+/********************************************************************************** */
+//#region Addon Options
+
+export interface Options extends Addon.AddonOptions {
+  /**
+   * Use `CodeMirror.fold.hypermd` as the range finder of foldcode and foldgutter.
+   *
+   * If `foldGutter` is not set, it's turned on and `CodeMirror-foldgutter` is added to `gutters`, to show markers.
+   *
+   * Note: this modifies `foldOptions`, and maybe `foldGutter` and `gutters`. They are restored when disabled.
+   * The commands work even if this addon is not enabled.
+   */
+  enabled: boolean
+}
+
+export const defaultOption: Options = {
+  enabled: false,
+}
+
+export const suggestedOption: Partial<Options> = {
+  enabled: true,  // we recommend lazy users to enable this fantastic addon!
+}
+
+export type OptionValueType = Partial<Options> | boolean;
+
+declare global {
+  namespace HyperMD {
+    interface EditorConfiguration {
+      /**
+       * Options for FoldStructure.
+       *
+       * You may also provide a `false` to disable it; a `true` to enable it with defaultOption (except `enabled`)
+       */
+      hmdFoldStructure?: OptionValueType
+    }
+  }
+}
+
+suggestedEditorConfig.hmdFoldStructure = suggestedOption
+
+CodeMirror.defineOption("hmdFoldStructure", defaultOption, function (cm: cm_t, newVal: OptionValueType) {
+
+  ///// convert newVal's type to `Partial<Options>`, if it is not.
+
+  if (!newVal || typeof newVal === "boolean") {
+    newVal = { enabled: !!newVal }
+  }
+
+  ///// apply config and write new values into cm
+
+  var inst = getAddon(cm)
+  for (var k in defaultOption) {
+    inst[k] = (k in newVal) ? newVal[k] : defaultOption[k]
+  }
+})
+
+//#endregion
+
+/********************************************************************************** */
+//#region Addon Class
+
+export class FoldStructure implements Addon.Addon, Options {
+  enabled: boolean;
+
+  /** the `foldOptions` before this addon got enabled */
+  private _oldFoldOptions: CodeMirror.FoldOptions = null
+
+  /** the `gutters` before this addon added the fold gutter. `null` if not added */
+  private _oldGutters: string[] = null
+
+  constructor(public cm: cm_t) {
+    // options will be initialized to defaultOption when constructor is finished
+
+    new FlipFlop(
+      /* ON  */() => {
+        const oldOptions: CodeMirror.FoldOptions = cm.getOption("foldOptions")
+        this._oldFoldOptions = oldOptions
+        cm.setOption("foldOptions", {
+          ...oldOptions,
+          // fallback to CodeMirror's default range finder, which works in code blocks
+          rangeFinder: CodeMirror.fold.combine(StructureRangeFinder, CodeMirror.fold.auto),
+        })
+
+        if (!cm.getOption("foldGutter")) {
+          // show markers in the gutter, after line numbers (if exists)
+          const gutters: string[] = cm.getOption("gutters") || []
+          const index = gutters.indexOf("CodeMirror-linenumbers") + 1
+          this._oldGutters = gutters
+          if (gutters.indexOf("CodeMirror-foldgutter") === -1) {
+            cm.setOption("gutters", gutters.slice(0, index).concat("CodeMirror-foldgutter", gutters.slice(index)))
+          }
+          cm.setOption("foldGutter", true)
+        }
+      },
+      /* OFF */() => {
+        if (this._oldGutters) {
+          cm.setOption("foldGutter", false)
+          cm.setOption("gutters", this._oldGutters)
+          this._oldGutters = null
+        }
+
+        cm.setOption("foldOptions", this._oldFoldOptions)
+        this._oldFoldOptions = null
+      }
+    ).bind(this, "enabled", true)
+  }
+}
+
+//#endregion
+
+/** ADDON GETTER (Singleton Pattern): a editor can have only one FoldStructure instance */
+export const getAddon = Addon.Getter("FoldStructure", FoldStructure, defaultOption /** if has options */)
+declare global { namespace HyperMD { interface HelperCollection { FoldStructure?: FoldStructure } } }
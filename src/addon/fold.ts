@@ -100,6 +100,53 @@ export function registerFolder(name: string, folder: FolderFunc, suggested: bool
 
 //#endregion
 
+/********************************************************************************** */
+//#region Image Size
+
+/** size of a image, in pixels. `0` means not specified */
+export interface ImageSize {
+  width: number
+  height: number
+}
+
+/**
+ * Extract the size from the URL part of a image, eg. `url =300x200 "title"`
+ *
+ * @param content text inside the parentheses
+ * @returns the URL part without size, and the size (could be `null`)
+ */
+export function splitImageURLSize(content: string): { content: string, size: ImageSize } {
+  var size: ImageSize = null
+  content = content.replace(/\s+=(\d*)x(\d*)(?=\s|$)/, (str, width, height) => {
+    if (!width && !height) return str
+    size = { width: ~~width, height: ~~height }
+    return ""
+  })
+  return { content, size }
+}
+
+/**
+ * Parse the attribute block after a image, eg. `{width=300 height=200}`
+ *
+ * @param text text after the image's `)`
+ * @returns the length of attribute block, and the size. `null` if there is no size in the attribute block
+ */
+export function parseImageAttrs(text: string): { length: number, size: ImageSize } {
+  var mat = text.match(/^\{([^{}\n]*)\}/)
+  if (!mat) return null
+
+  var width = mat[1].match(/(?:^|\s)width=["']?(\d+)(?:px)?\b/)
+  var height = mat[1].match(/(?:^|\s)height=["']?(\d+)(?:px)?\b/)
+  if (!width && !height) return null
+
+  return {
+    length: mat[0].length,
+    size: { width: width ? ~~width[1] : 0, height: height ? ~~height[1] : 0 },
+  }
+}
+
+//#endregion
+
 /********************************************************************************** */
 //#region builtinFolder
 
@@ -116,13 +163,19 @@ export const ImageFolder: FolderFunc = function (stream, token) {
 
     let from: Position = { line: lineNo, ch: token.start }
     let to: Position = { line: lineNo, ch: url_end.token.end }
+
+    // maybe followed by a attribute block, eg. {width=300}
+    let attrs = parseImageAttrs(stream.line.text.slice(to.ch))
+    if (attrs) to.ch += attrs.length
+
     let rngReq = stream.requestRange(from, to)
 
     if (rngReq === RequestRangeResult.OK) {
       var url: string
       var title: string
+      var size: ImageSize = null
 
-      { // extract the URL
+      { // extract the URL and size
         let rawurl = cm.getRange(    // get the URL or footnote name in the parentheses
           { line: lineNo, ch: url_begin.token.start + 1 },
           { line: lineNo, ch: url_end.token.start }
@@ -132,8 +185,10 @@ export const ImageFolder: FolderFunc = function (stream, token) {
           if (!tmp) return null // Yup! bad URL?!
           rawurl = tmp.content
         }
-        url = splitLink(rawurl).url
+        let tmp = splitImageURLSize(rawurl)
+        url = splitLink(tmp.content).url
         url = cm.hmdResolveURL(url)
+        size = (attrs && attrs.size) || tmp.size
       }
 
       { // extract the title
@@ -166,6 +221,8 @@ export const ImageFolder: FolderFunc = function (stream, token) {
       img.className = "hmd-image hmd-image-loading"
       img.src = url
       img.title = title
+      if (size && size.width) img.style.width = size.width + "px"
+      if (size && size.height) img.style.height = size.height + "px"
       return marker
     } else {
       if (DEBUG) {
@@ -0,0 +1,312 @@
+// HyperMD, copyright (c) by laobubu
+// Distributed under an MIT license: http://laobubu.net/HyperMD/LICENSE
+//
+// DESCRIPTION: Manage footnotes: insert a new one, renumber them, and mark missing / unused ones
+//
+// Commands:
+//
+// - `hmdInsertFootnote` -- insert `[^n]` at the cursor with the next free number, and append `[^n]: ` to the document
+// - `hmdRenumberFootnotes` -- renumber `[^n]` footnotes in order of first reference
+//
+// When enabled, references without definitions get `hmd-footnote-missing` class,
+// and definitions without references get `hmd-footnote-unused` class.
+//
+
+import * as CodeMirror from 'codemirror'
+import { Addon, FlipFlop, debounce, suggestedEditorConfig } from '../core'
+import { TextMarker, Position } from 'codemirror'
+import { cm_t } from '../core/type'
+import { Link, getAddon as getReadLinkAddon } from './read-link'
+
+/********************************************************************************** */
+
+export interface FootnoteRef {
+  line: number
+  /** where the "[" is */
+  ch: number
+  /** length of the reference, eg. 4 for `[^1]` */
+  length: number
+}
+
+export interface FootnoteInfo {
+  /** the name without brackets, in lower case. eg. "^1" */
+  key: string
+  /** references, in document order */
+  refs: FootnoteRef[]
+  /** definitions, from the cache of *read-link* addon */
+  defs: Link[]
+}
+
+/** the same as *read-link* addon, which caches definitions */
+const definitionRE = /^((?:>\s+)*>?\s{0,3})\[([^\]]+)\]:/
+
+/**
+ * Get the range of `[^1]:` on a definition line
+ *
+ * @returns null if not a definition
+ */
+export function getDefinitionRange(cm: cm_t, line: number): { from: Position, to: Position } {
+  var mat = definitionRE.exec(cm.getLine(line))
+  if (!mat) return null
+  return {
+    from: { line, ch: mat[1].length },
+    to: { line, ch: mat[0].length },
+  }
+}
+
+/**
+ * Find all footnotes (whose name starts with "^"), and where they are referred.
+ *
+ * Referred footnotes are ordered by their first references; then unused ones, ordered by line number.
+ */
+export function scanFootnotes(cm: cm_t): FootnoteInfo[] {
+  const cache = getReadLinkAddon(cm).cache
+  const refRE = /\[(\^[^\[\]]+)\]/g
+  const refStyleRE = /(?:^|\s)hmd-footref(?:\s|$)/
+
+  var dict: Record<string, FootnoteInfo> = {}
+  var footnotes: FootnoteInfo[] = []
+  const getFootnote = (key: string) => {
+    if (!(key in dict)) footnotes.push(dict[key] = { key, refs: [], defs: cache[key] || [] })
+    return dict[key]
+  }
+
+  cm.eachLine(lineHandle => {
+    const text = lineHandle.text
+    if (text.indexOf("[^") === -1) return
+
+    const line = lineHandle.lineNo()
+    let mat: RegExpExecArray
+    refRE.lastIndex = 0
+    while (mat = refRE.exec(text)) {
+      const type = cm.getTokenAt({ line, ch: mat.index + 1 }).type
+      if (!type || !refStyleRE.test(type)) continue // not a footref, eg. inside code
+
+      getFootnote(mat[1].trim().toLowerCase()).refs.push({ line, ch: mat.index, length: mat[0].length })
+    }
+  })
+
+  var unused: FootnoteInfo[] = []
+  for (const key in cache) {
+    if (key.charAt(0) === "^" && !(key in dict)) unused.push({ key, refs: [], defs: cache[key] })
+  }
+  unused.sort((a, b) => a.defs[0].line - b.defs[0].line)
+
+  return footnotes.concat(unused)
+}
+
+/** get the next free footnote number. eg. 3 if `[^1]` and `[^2]` are used */
+export function getNextFootnoteNumber(footnotes: FootnoteInfo[]) {
+  var max = 0
+  for (let i = 0; i < footnotes.length; i++) {
+    const mat = footnotes[i].key.match(/^\^(\d+)$/)
+    if (mat) max = Math.max(max, +mat[1])
+  }
+  return max + 1
+}
+
+/**
+ * Append definitions like `[^1]: text` or `[foo]: http://url` to the end of document.
+ * If the last line is a definition, they are put next to it; otherwise, after a blank line.
+ *
+ * @returns the end of the last definition
+ */
+export function appendDefinitions(cm: cm_t, definitions: string[]): Position {
+  const lastLine = cm.lastLine()
+  const lastText = cm.getLine(lastLine)
+
+  var prefix = ""
+  if (definitionRE.test(lastText)) prefix = "\n"
+  else if (/\S/.test(lastText)) prefix = "\n\n"
+  else if (lastLine > 0 && /\S/.test(cm.getLine(lastLine - 1))) prefix = "\n"
+
+  cm.replaceRange(prefix + definitions.join("\n"), { line: lastLine, ch: lastText.length })
+  return { line: cm.lastLine(), ch: cm.getLine(cm.lastLine()).length }
+}
+
+/********************************************************************************** */
+//#region Commands
+
+/**
+ * Insert `[^n]` at the cursor, append its definition `[^n]: ` to the end of document, then move the cursor there.
+ *
+ * If *click* addon is loaded, user may go back with `hmdNavigateBack` command.
+ */
+export function insertFootnote(cm: cm_t) {
+  const name = "^" + getNextFootnoteNumber(scanFootnotes(cm))
+
+  cm.operation(() => {
+    cm.replaceSelection("[" + name + "]", "end")
+
+    const pos = appendDefinitions(cm, ["[" + name + "]: "])
+    const click = cm.hmd.Click
+    if (click) click.navigateTo(pos)
+    else cm.setCursor(pos)
+  })
+}
+
+/**
+ * Renumber footnotes like `[^3]` in order of their first references. Unused ones are numbered at last.
+ *
+ * Named footnotes like `[^note]` are not changed.
+ */
+export function renumberFootnotes(cm: cm_t) {
+  const footnotes = scanFootnotes(cm).filter(it => /^\^\d+$/.test(it.key))
+  var edits: { from: Position, to: Position, text: string }[] = []
+
+  for (let i = 0; i < footnotes.length; i++) {
+    const { key, refs, defs } = footnotes[i]
+    const text = "^" + (i + 1)
+    if (key === text) continue
+
+    for (let j = 0; j < refs.length; j++) {
+      const { line, ch, length } = refs[j]
+      edits.push({ from: { line, ch: ch + 1 }, to: { line, ch: ch + length - 1 }, text })
+    }
+
+    for (let j = 0; j < defs.length; j++) {
+      const range = getDefinitionRange(cm, defs[j].line)
+      if (range) edits.push({ from: { line: range.from.line, ch: range.from.ch + 1 }, to: { line: range.to.line, ch: range.to.ch - 2 }, text })
+    }
+  }
+
+  if (!edits.length) return
+
+  // from the end to the beginning, so positions are not affected by previous edits
+  edits.sort((a, b) => (b.from.line - a.from.line) || (b.from.ch - a.from.ch))
+  cm.operation(() => {
+    for (let i = 0; i < edits.length; i++) cm.replaceRange(edits[i].text, edits[i].from, edits[i].to)
+  })
+}
+
+Object.assign(CodeMirror.commands, {
+  hmdInsertFootnote: insertFootnote,
+  hmdRenumberFootnotes: renumberFootnotes,
+})
+
+//#endregion
+
+/********************************************************************************** */
+//#region Addon Options
+
+export interface Options extends Addon.AddonOptions {
+  /** Mark references without definitions, and definitions without references */
+  enabled: boolean
+}
+
+export const defaultOption: Options = {
+  enabled: false,
+}
+
+export const suggestedOption: Partial<Options> = {
+  enabled: true,  // we recommend lazy users to enable this fantastic addon!
+}
+
+export type OptionValueType = Partial<Options> | boolean;
+
+declare global {
+  namespace HyperMD {
+    interface EditorConfiguration {
+      /**
+       * Options for Footnote.
+       *
+       * You may also provide a boolean to toggle it.
+       *
+       * Note: the commands `hmdInsertFootnote` and `hmdRenumberFootnotes` always work.
+       */
+      hmdFootnote?: OptionValueType
+    }
+  }
+}
+
+suggestedEditorConfig.hmdFootnote = suggestedOption
+
+CodeMirror.defineOption("hmdFootnote", defaultOption, function (cm: cm_t, newVal: OptionValueType) {
+
+  ///// convert newVal's type to `Partial<Options>`, if it is not.
+
+  if (!newVal || typeof newVal === "boolean") {
+    newVal = { enabled: !!newVal }
+  }
+
+  ///// apply config and write new values into cm
+
+  var inst = getAddon(cm)
+  for (var k in defaultOption) {
+    inst[k] = (k in newVal) ? newVal[k] : defaultOption[k]
+  }
+})
+
+//#endregion
+
+/********************************************************************************** */
+//#region Addon Class
+
+export class Footnote implements Addon.Addon, Options {
+  enabled: boolean;
+
+  /** footnotes found by last `lint()`. do NOT modify it */
+  footnotes: FootnoteInfo[] = []
+
+  /** marks of missing and unused footnotes */
+  private _marks: TextMarker[] = []
+
+  constructor(public cm: cm_t) {
+    // options will be initialized to defaultOption when constructor is finished
+
+    new FlipFlop(
+      /* ON  */() => {
+        cm.on("changes", this.startLint)
+        this.lint()
+      },
+      /* OFF */() => {
+        cm.off("changes", this.startLint)
+        this.startLint.stop()
+        this.clearMarks()
+      }
+    ).bind(this, "enabled", true)
+  }
+
+  /** (debounced) find footnotes, then mark missing and unused ones */
+  startLint = debounce(() => this.lint(), 500)
+
+  /** find footnotes, then mark missing and unused ones */
+  lint() {
+    const cm = this.cm
+    const footnotes = this.footnotes = scanFootnotes(cm)
+    this.startLint.stop()
+
+    cm.operation(() => {
+      this.clearMarks()
+
+      for (let i = 0; i < footnotes.length; i++) {
+        const { refs, defs } = footnotes[i]
+
+        if (!defs.length) {
+          for (let j = 0; j < refs.length; j++) {
+            const { line, ch, length } = refs[j]
+            this._marks.push(cm.markText({ line, ch }, { line, ch: ch + length }, { className: "hmd-footnote-missing" }))
+          }
+        }
+
+        if (!refs.length) {
+          for (let j = 0; j < defs.length; j++) {
+            const range = getDefinitionRange(cm, defs[j].line)
+            if (range) this._marks.push(cm.markText(range.from, range.to, { className: "hmd-footnote-unused" }))
+          }
+        }
+      }
+    })
+  }
+
+  clearMarks() {
+    var marker: TextMarker
+    while (marker = this._marks.pop()) marker.clear()
+  }
+}
+
+//#endregion
+
+/** ADDON GETTER (Singleton Pattern): a editor can have only one Footnote instance */
+export const getAddon = Addon.Getter("Footnote", Footnote, defaultOption /** if has options */)
+declare global { namespace HyperMD { interface HelperCollection { Footnote?: Footnote } } }
@@ -1,15 +1,20 @@
 // HyperMD, copyright (c) by laobubu
 // Distributed under an MIT license: http://laobubu.net/HyperMD/LICENSE
 //
-// DESCRIPTION: When mouse hovers on a link or footnote ref, shows related footnote
+// DESCRIPTION: When mouse hovers on a footnote ref, link, image, URL or math, shows a tooltip
+//
+// The content of tooltip is decided by HoverProviders, one for each HoverTargetType.
+// Override them with `providers` option. HoverProviders may return Promises, whose results are cached.
 //
 
 import * as CodeMirror from 'codemirror'
+import { Position } from 'codemirror'
 import { Addon, FlipFlop, expandRange, suggestedEditorConfig } from '../core'
 import './read-link'
 
 import { cm_t } from '../core/type'
-import { Link } from './read-link'
+import { Link, findWikilink, splitLink } from './read-link'
+import { MathRenderer } from './fold-math'
 
 
 /********************************************************************************** */
@@ -23,12 +28,233 @@ var markdownToHTML: (text: string) => string =
     return "<pre>" + text + "</pre>"
   }
 
+/**
+ * provide a preview of the page which a wikilink `[[Page Name|alias]]` points to.
+ * Shall return HTML string, or `null` to supress the tooltip
+ */
+export type WikilinkResolver = (page: string, alias: string) => string
+
 /** if `marked` exists, use it; else, return safe html */
 export function defaultConvertor(footnote: string, text: string): string {
   if (!text) return null
   return markdownToHTML(text)
 }
 
+/********************************************************************************** */
+//#region HoverTarget
+
+export type HoverTargetType = "footref" | "link" | "image" | "url" | "wikilink" | "hashtag" | "math"
+
+/** what the mouse hovers on */
+export interface HoverTarget {
+  type: HoverTargetType
+
+  /** the Markdown source */
+  text: string
+
+  /**
+   * - footref: name of the footnote, without square brackets
+   * - link, image: the text inside square brackets
+   * - wikilink: the page name
+   * - hashtag: the tag, without "#"
+   * - math: the expression, without "$"
+   */
+  name: string
+
+  /** the resolved URL of link, image and url. `null` if not found */
+  url: string
+
+  /** title of link and image, alias of wikilink. For math, it's "display" if in display mode */
+  title: string
+
+  pos: Position
+  element: HTMLElement
+
+  /**
+   * For asynchronous HoverProviders. It's aborted when the mouse leaves, eg. `fetch(url, { signal })`.
+   *
+   * Only available if browser supports AbortController.
+   */
+  signal?: AbortSignal
+}
+
+/** HTML string, an element, or `null` to supress the tooltip */
+export type HoverContent = string | HTMLElement
+
+/**
+ * Decide the tooltip's content.
+ *
+ * It may return a Promise, then a loading indicator is shown until it's resolved.
+ * Results of Promises are cached, see `Hover.cache`
+ */
+export type HoverProvider = (target: HoverTarget, cm: cm_t) => HoverContent | PromiseLike<HoverContent>
+
+/** the key of Hover's cache. eg. "link:http://laobubu.net" */
+export function getCacheKey(target: HoverTarget) {
+  return target.type + ":" + (target.url || target.name)
+}
+
+function escapeHTML(text: string) {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+}
+
+/** find url and title, from `[text](url "title")`, `[text][ref]`, `<url>` or `[ref]` */
+function parseLink(cm: cm_t, text: string, lineNo: number): { url: string, title: string } {
+  var mat: RegExpMatchArray
+  var tmp: number
+
+  if (text.slice(-1) === ')' && (tmp = text.lastIndexOf('](')) !== -1) {
+    return splitLink(text.slice(tmp + 2, -1))
+  }
+
+  if (
+    (mat = text.match(/[^\\]\]\s?\[([^\]]+)\]$/)) ||  // .][ref]
+    (mat = text.match(/^\[(.+)\]\s?\[\]$/)) ||     // [ref][]
+    (mat = text.match(/^\[(.+)\]$/))               // [ref]
+  ) {
+    let footnote = cm.hmdReadLink(mat[1], lineNo)
+    return footnote ? splitLink(footnote.content) : { url: null, title: "" }
+  }
+
+  mat = text.match(/^\<(.+)\>$/)
+  return { url: mat ? mat[1] : text, title: "" }
+}
+
+/**
+ * Find out what is at the position
+ *
+ * @returns `null` if nothing to show
+ */
+export function getHoverTarget(cm: cm_t, pos: Position, element: HTMLElement): HoverTarget {
+  const token = cm.getTokenAt(pos)
+  const styles = " " + token.type + " "
+  const lineNo = pos.line
+
+  var type: HoverTargetType = null
+  var range: ReturnType<typeof expandRange> = null
+  var name = "", url: string = null, title = ""
+
+  if (/\shmd-wikilink\s/.test(styles)) {
+    let wikilink = findWikilink(cm.getLine(lineNo), pos.ch)
+    if (!wikilink) return null
+
+    type = "wikilink"
+    range = { from: { line: lineNo, ch: wikilink.from }, to: { line: lineNo, ch: wikilink.to } }
+    name = wikilink.page
+    title = wikilink.alias
+  } else if (/\s(?:hmd-barelink2?|hmd-footref2)\s/.test(styles)) {
+    type = "footref"
+    range = expandRange(cm, pos, styles.match(/\s(hmd-barelink2?|hmd-footref2)\s/)[1])
+    name = cm.getRange(range.from, range.to).slice(1, -1)
+  } else if (/\smath\s/.test(styles)) {
+    type = "math"
+    range = expandRange(cm, pos, "math")
+    name = cm.getRange(range.from, range.to).replace(/^\$+|\$+$/g, "")
+    title = /\smath-2\s/.test(styles) ? "display" : ""
+  } else if (/\shashtag\s/.test(styles)) {
+    type = "hashtag"
+    range = expandRange(cm, pos, "hashtag")
+    name = cm.getRange(range.from, range.to).replace(/^#|#$/g, "")
+  } else if (/\s(?:image|link|url)\s/.test(styles) && !/\shmd-footnote(?:-url)?\s/.test(styles)) {
+    // find the beginning. for `(url)` of a link or image, start from `[text]`
+    range = expandRange(cm, pos, /\s(?:image|link)\s/.test(styles) ? (token => /(?:^|\s)(?:image|link)(?:\s|$)/.test(token.type)) : "url")
+    if (/\sstring\s/.test(styles) && range.from.ch > 0) {
+      const prevToken = cm.getTokenAt(range.from)
+      if (/(?:^|\s)(?:image|link)(?:\s|$)/.test(prevToken.type)) {
+        range.from = expandRange(cm, range.from, (token => /(?:^|\s)(?:image|link)(?:\s|$)/.test(token.type))).from
+      }
+    }
+
+    // find the end. include `(url)` or `[ref]` of a link or image
+    const fromToken = cm.getTokenAt({ line: lineNo, ch: range.from.ch + 1 })
+    const isURL = !/(?:^|\s)(?:image|link)(?:\s|$)/.test(fromToken.type)
+    if (!isURL) {
+      const tmp = expandRange(cm, { line: lineNo, ch: range.to.ch + 1 }, "url")
+      if (tmp && tmp.from.ch === range.to.ch) range.to = tmp.to
+    }
+
+    const text = cm.getRange(range.from, range.to)
+    type = isURL ? "url" : /(?:^|\s)image(?:\s|$)/.test(fromToken.type) ? "image" : "link"
+    if (type !== "url") {
+      let mat = text.match(/^!?\[((?:[^\\\]]|\\.)*)\]/)
+      name = mat ? mat[1] : ""
+    }
+
+    const link = parseLink(cm, type === "url" ? text.trim() : text, lineNo)
+    url = link.url && cm.hmdResolveURL(link.url)
+    title = link.title
+  }
+
+  if (!type || !range) return null
+
+  return {
+    type,
+    text: cm.getRange(range.from, range.to),
+    name,
+    url,
+    title,
+    pos,
+    element,
+  }
+}
+
+//#endregion
+
+/********************************************************************************** */
+//#region Default HoverProviders
+
+export const defaultProviders: Record<HoverTargetType, HoverProvider> = {
+  footref(target, cm) {
+    const footnote: Link = target.name ? (cm.hmdReadLink(target.name, target.pos.line) || null) : null
+    const convertor = getAddon(cm).convertor || defaultConvertor
+    return convertor(target.name, footnote && footnote.content || null)
+  },
+
+  link(target) {
+    if (!target.url) return null
+    return (target.title ? `<div class="HyperMD-hover-title">${escapeHTML(target.title)}</div>` : "") +
+      `<div class="HyperMD-hover-url">${escapeHTML(target.url)}</div>`
+  },
+
+  url(target) {
+    if (!target.url) return null
+    return `<div class="HyperMD-hover-url">${escapeHTML(target.url)}</div>`
+  },
+
+  image(target) {
+    if (!target.url) return null
+    return `<img class="HyperMD-hover-image" src="${escapeHTML(target.url)}" alt="${escapeHTML(target.name)}">` +
+      (target.title ? `<div class="HyperMD-hover-title">${escapeHTML(target.title)}</div>` : "")
+  },
+
+  wikilink(target, cm) {
+    const resolver = getAddon(cm).wikilinkResolver
+    return resolver ? resolver(target.name, target.title) : null
+  },
+
+  hashtag: null, // no default behavior. apps may provide one
+
+  /** render with the renderer of FoldMath addon, if loaded */
+  math(target, cm) {
+    const foldMath = cm.hmd.FoldMath
+    if (!foldMath || !foldMath.renderer || !target.name.trim()) return null
+
+    var el = document.createElement("div")
+    el.className = "HyperMD-hover-math"
+
+    var renderer: MathRenderer = foldMath.createRenderer(el, target.title === "display" ? "display" : "")
+    if (!renderer.isReady()) return null
+
+    const hover = getAddon(cm)
+    renderer.onChanged = () => hover.updatePosition()
+    renderer.startRender(target.name)
+    hover.onContentRemoved(el, () => renderer.clear())
+    return el
+  },
+}
+
+//#endregion
+
 /********************************************************************************** */
 //#region Addon Options
 
@@ -49,12 +275,34 @@ export interface Options extends Addon.AddonOptions {
    * @see defaultConvertor
    */
   convertor: Convertor
+
+  /**
+   * function to decide the tooltip's content, when hovering on a wikilink.
+   *
+   * If not set, there will be no tooltip for wikilinks.
+   *
+   * @see WikilinkResolver
+   */
+  wikilinkResolver: WikilinkResolver
+
+  /**
+   * Override HoverProviders of some HoverTargetTypes. Set one to `null` to disable it.
+   *
+   * Not configured types use `defaultProviders`.
+   *
+   * @example { hashtag: (target) => "Search for " + target.name, url: null }
+   * @see HoverProvider
+   * @see defaultProviders
+   */
+  providers: Partial<Record<HoverTargetType, HoverProvider>>
 }
 
 export const defaultOption: Options = {
   enabled: false,
   xOffset: 10,
   convertor: defaultConvertor,
+  wikilinkResolver: null,
+  providers: {},
 }
 
 export const suggestedOption: Partial<Options> = {
@@ -108,14 +356,23 @@ CodeMirror.defineOption("hmdHover", defaultOption, function (cm: cm_t, newVal: O
 export class Hover implements Addon.Addon, Options /* if needed */ {
   xOffset: number;
   convertor: Convertor;
+  wikilinkResolver: WikilinkResolver;
+  providers: Partial<Record<HoverTargetType, HoverProvider>>;
   enabled: boolean;
 
   constructor(public cm: cm_t) {
     // options will be initialized to defaultOption when constructor is finished
 
     new FlipFlop(
-      /* ON  */() => { lineDiv.addEventListener("mouseenter", evhandler, true) },
-      /* OFF */() => { lineDiv.removeEventListener("mouseenter", evhandler, true); this.hideInfo() }
+      /* ON  */() => {
+        lineDiv.addEventListener("mouseenter", evhandler, true)
+        lineDiv.addEventListener("mouseleave", this._mouseLeave, false)
+      },
+      /* OFF */() => {
+        lineDiv.removeEventListener("mouseenter", evhandler, true)
+        lineDiv.removeEventListener("mouseleave", this._mouseLeave, false)
+        this.hideInfo()
+      }
     ).bind(this, "enabled", true)
 
     var lineDiv = cm.display.lineDiv as HTMLDivElement
@@ -146,67 +403,217 @@ export class Hover implements Addon.Addon, Options /* if needed */ {
   public tooltipContentDiv: HTMLDivElement
   public tooltipIndicator: HTMLDivElement
 
+  /** the element that the tooltip points to */
+  public relatedTo: HTMLElement = null
+
+  /**
+   * Results of asynchronous HoverProviders. The key is made by `getCacheKey`
+   *
+   * @see invalidateCache
+   */
+  public cache: Record<string, HoverContent> = {}
+
+  /** see `onContentRemoved` */
+  private _cleanups: { content: HTMLElement, fn: () => void }[] = []
+
+  private _requestID = 0
+  private _requestKey: string = null
+  private _abortRequest: () => void = null
+
+  /** get the HoverProvider of a HoverTargetType. returns `null` if disabled */
+  getProvider(type: HoverTargetType): HoverProvider {
+    var providers = this.providers
+    if (providers && type in providers) return providers[type] || null
+    return defaultProviders[type] || null
+  }
+
   mouseenter(ev: MouseEvent) {
     var cm = this.cm, target = ev.target as HTMLElement
-    var className = target.className
     if (target == this.tooltipDiv || (target.compareDocumentPosition && (target.compareDocumentPosition(this.tooltipDiv) & 8) == 8)) {
       return
     }
 
-    var mat: RegExpMatchArray
-    if (target.nodeName !== "SPAN" || !(mat = className.match(/(?:^|\s)cm-(hmd-barelink2?|hmd-footref2)(?:\s|$)/))) {
+    if (target.nodeName !== "SPAN" || !/(?:^|\s)cm-/.test(target.className)) {
       this.hideInfo()
       return
     }
 
     var pos = cm.coordsChar({ left: ev.clientX, top: ev.clientY }, "window")
-    let footnoteName = null
-    var footnote: Link = null
-
-    const hover_type = mat[1] // hmd-barelink|hmd-link-url-s
-    var range = expandRange(cm, pos, hover_type)
-    if (range) {
-      footnoteName = cm.getRange(range.from, range.to)
-      footnoteName = footnoteName.slice(1, -1)
-      if (footnoteName) footnote = cm.hmdReadLink(footnoteName, pos.line) || null
+    var hoverTarget = getHoverTarget(cm, pos, target)
+    var provider = hoverTarget && this.getProvider(hoverTarget.type)
+
+    if (!provider) {
+      this.hideInfo()
+      return
     }
 
-    var convertor = this.convertor || defaultConvertor
-    var html = convertor(footnoteName, footnote && footnote.content || null)
+    this.request(hoverTarget, provider)
+  }
 
-    if (!html) {
-      this.hideInfo()
+  private _mouseLeave = () => { this.hideInfo() }
+
+  /**
+   * Get the content from HoverProvider (or the cache), then show the tooltip
+   */
+  request(target: HoverTarget, provider: HoverProvider) {
+    const key = getCacheKey(target)
+    if (key === this._requestKey && this._abortRequest) return // still loading
+
+    this.cancelRequest()
+
+    if (key in this.cache) {
+      this._showOrHide(this.cache[key], target.element)
+      return
+    }
+
+    const controller = typeof AbortController !== 'undefined' ? new AbortController() : null
+    if (controller) target.signal = controller.signal
+
+    const result = provider(target, this.cm)
+    if (!result || typeof result["then"] !== 'function') {
+      this._showOrHide(result as HoverContent, target.element)
       return
     }
 
-    this.showInfo(html, target)
+    const promise = result as PromiseLike<HoverContent>
+    const id = this._requestID
+    this._requestKey = key
+    this._abortRequest = () => { if (controller) controller.abort() }
+    this.showInfo('<div class="HyperMD-hover-loading">Loading...</div>', target.element)
+
+    const done = (content: HoverContent) => {
+      if (id !== this._requestID) return // stale
+      this._requestKey = null
+      this._abortRequest = null
+      this._showOrHide(content, target.element)
+    }
+
+    promise.then(
+      (content) => {
+        this.cache[key] = content || null
+        done(content)
+      },
+      () => done(null)
+    )
   }
 
-  showInfo(html: string, relatedTo: HTMLElement) {
-    const b1 = relatedTo.getBoundingClientRect()
-    const b2 = this.lineDiv.getBoundingClientRect()
+  /** stop waiting for the asynchronous HoverProvider */
+  cancelRequest() {
+    var abort = this._abortRequest
+    this._requestID++
+    this._requestKey = null
+    this._abortRequest = null
+    if (abort) abort()
+  }
+
+  /**
+   * Remove cached results of asynchronous HoverProviders.
+   *
+   * @param filter a key, or a function that tests keys. If omitted, all results are removed
+   * @see getCacheKey
+   */
+  invalidateCache(filter?: string | ((key: string) => boolean)) {
+    if (!filter) {
+      this.cache = {}
+    } else if (typeof filter === 'string') {
+      delete this.cache[filter]
+    } else {
+      for (const key in this.cache) {
+        if (filter(key)) delete this.cache[key]
+      }
+    }
+  }
+
+  private _showOrHide(content: HoverContent, relatedTo: HTMLElement) {
+    if (content) this.showInfo(content, relatedTo)
+    else this.hideInfo()
+  }
+
+  /**
+   * Show the tooltip, pointing to `relatedTo`
+   *
+   * @param content HTML string, or an element
+   */
+  showInfo(content: string | HTMLElement, relatedTo: HTMLElement) {
+    this._cleanup(typeof content === "string" ? null : content)
+
+    const contentDiv = this.tooltipContentDiv
+    if (typeof content === "string") {
+      contentDiv.innerHTML = content
+    } else {
+      contentDiv.innerHTML = ""
+      contentDiv.appendChild(content)
+    }
+
+    this.relatedTo = relatedTo
+    this.lineDiv.appendChild(this.tooltipDiv)
+    this.updatePosition()
+  }
+
+  /**
+   * Put the tooltip above (or below, if no enough space) the related element,
+   * and keep it inside the editor.
+   *
+   * Call this if the content's size is changed.
+   */
+  updatePosition() {
+    const relatedTo = this.relatedTo
     const tdiv = this.tooltipDiv
-    var xOffset = this.xOffset
+    if (!relatedTo || tdiv.parentElement !== this.lineDiv) return
 
-    this.tooltipContentDiv.innerHTML = html
-    tdiv.style.left = (b1.left - b2.left - xOffset) + 'px'
-    this.lineDiv.appendChild(tdiv)
+    const b0 = this.cm.getScrollerElement().getBoundingClientRect() // the visible area
+    const b1 = relatedTo.getBoundingClientRect()
+    const b2 = this.lineDiv.getBoundingClientRect()
 
+    tdiv.style.maxWidth = b0.width + 'px'
+    tdiv.style.left = (b1.left - b2.left - this.xOffset) + 'px'
     var b3 = tdiv.getBoundingClientRect()
-    if (b3.right > b2.right) {
-      xOffset = b3.right - b2.right
-      tdiv.style.left = (b1.left - b2.left - xOffset) + 'px'
-    }
-    tdiv.style.top = (b1.top - b2.top - b3.height) + 'px'
 
-    this.tooltipIndicator.style.marginLeft = xOffset + 'px'
+    // keep it inside the editor
+    var left = b1.left - this.xOffset
+    if (left + b3.width > b0.right) left = b0.right - b3.width
+    if (left < b0.left) left = b0.left
+    tdiv.style.left = (left - b2.left) + 'px'
+
+    // if there is no enough space above, put it below
+    const isBelow = b1.top - b3.height < b0.top && b1.bottom + b3.height <= b0.bottom
+    tdiv.className = "HyperMD-hover" + (isBelow ? " HyperMD-hover-below" : "")
+    if (isBelow) tdiv.insertBefore(this.tooltipIndicator, this.tooltipContentDiv)
+    else tdiv.appendChild(this.tooltipIndicator)
+
+    tdiv.style.top = (isBelow ? (b1.bottom - b2.top) : (b1.top - b2.top - b3.height)) + 'px'
+
+    this.tooltipIndicator.style.marginLeft = Math.max(0, b1.left - left) + 'px'
   }
 
   hideInfo() {
+    this.cancelRequest()
+    this._cleanup()
+    this.relatedTo = null
     if (this.tooltipDiv.parentElement == this.lineDiv) {
       this.lineDiv.removeChild(this.tooltipDiv)
     }
   }
+
+  /**
+   * Call `fn` when `content` is replaced or hidden. HoverProviders may use this to release resources, eg. a MathRenderer
+   *
+   * @param content the element that HoverProvider returns
+   */
+  onContentRemoved(content: HTMLElement, fn: () => void) {
+    this._cleanups.push({ content, fn })
+  }
+
+  /** call functions from `onContentRemoved`, except those for `keep` */
+  private _cleanup(keep?: HTMLElement) {
+    var cleanups = this._cleanups
+    for (let i = cleanups.length - 1; i >= 0; i--) {
+      const it = cleanups[i]
+      if (keep && it.content === keep) continue
+      cleanups.splice(i, 1)
+      it.fn()
+    }
+  }
 }
 
 //#endregion
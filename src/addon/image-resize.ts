@@ -0,0 +1,292 @@
+// HyperMD, copyright (c) by laobubu
+// Distributed under an MIT license: http://laobubu.net/HyperMD/LICENSE
+//
+// DESCRIPTION: Resize folded images by dragging a handle, then write the size back into Markdown
+//
+// Works with *fold* addon, which honours the size syntax while folding images:
+//
+// - `![alt](url =300x200)`
+// - `![alt](url){width=300 height=200}`
+//
+
+import * as CodeMirror from 'codemirror'
+import { Addon, FlipFlop, suggestedEditorConfig } from '../core'
+import { TextMarker } from 'codemirror'
+import { cm_t } from '../core/type'
+import { ImageSize, splitImageURLSize } from './fold'
+
+/********************************************************************************** */
+
+/**
+ * How to write the size into Markdown
+ *
+ * - `"url"` -- `![alt](url =300x200)`
+ * - `"attribute"` -- `![alt](url){width=300 height=200}`
+ * - `"html"` -- `<img src="url" alt="alt" width="300" height="200">`
+ */
+export type SizeSyntax = "url" | "attribute" | "html"
+
+const imageRE = /^!\[((?:[^\\\]]|\\.)*)\](?:\((.*)\)|(\[[^\]]*\]))(\{[^{}\n]*\})?$/
+
+function escapeAttr(text: string) {
+  return text.replace(/&/g, "&amp;").replace(/"/g, "&quot;").replace(/</g, "&lt;")
+}
+
+/**
+ * Change the size of a Markdown image
+ *
+ * Note: reference-style images like `![alt][ref]` are always written with `"attribute"` syntax
+ *
+ * @param text the image, eg. `![alt](url "title")` or `![alt](url){width=300}`
+ * @returns the new Markdown text. `null` if text is not a image
+ */
+export function setImageSize(text: string, size: ImageSize, syntax: SizeSyntax): string {
+  var mat = text.match(imageRE)
+  if (!mat) return null
+
+  var alt = mat[1]
+  var content = mat[2]
+  var attrs = (mat[4] || "{}").slice(1, -1)
+
+  // remove the old size
+  if (typeof content === 'string') content = splitImageURLSize(content).content.trim()
+  attrs = attrs.replace(/(?:^|\s+)(?:width|height)=["']?\d+(?:px)?["']?/g, "").trim()
+
+  if (typeof content !== 'string' && syntax !== "attribute") syntax = "attribute" // reference-style image
+
+  if (syntax === "html") {
+    const tmp = content.match(/^(\S+)(?:\s+"((?:[^"\\]|\\.)*)")?/) || ["", ""]
+    let html = `<img src="${escapeAttr(tmp[1])}" alt="${escapeAttr(alt)}"`
+    if (tmp[2]) html += ` title="${escapeAttr(tmp[2].replace(/\\"/g, '"'))}"`
+    if (size.width) html += ` width="${size.width}"`
+    if (size.height) html += ` height="${size.height}"`
+    return html + ">"
+  }
+
+  var sizeText = ""
+  if (syntax === "url") {
+    sizeText = "=" + (size.width || "") + "x" + (size.height || "")
+    content = content.replace(/^\S*/, "$& " + sizeText)
+  } else {
+    sizeText = (size.width ? "width=" + size.width : "") + (size.width && size.height ? " " : "") + (size.height ? "height=" + size.height : "")
+    attrs = sizeText + (attrs && sizeText ? " " : "") + attrs
+  }
+
+  return "![" + alt + "]" +
+    (typeof content === 'string' ? "(" + content + ")" : mat[3]) +
+    (attrs ? "{" + attrs + "}" : "")
+}
+
+/********************************************************************************** */
+//#region Addon Options
+
+export interface Options extends Addon.AddonOptions {
+  /** Show a handle on folded images, which resizes the image */
+  enabled: boolean
+
+  /**
+   * How to write the size into Markdown
+   *
+   * @see SizeSyntax
+   */
+  syntax: SizeSyntax
+
+  /** keep the aspect ratio while resizing */
+  keepRatio: boolean
+}
+
+export const defaultOption: Options = {
+  enabled: false,
+  syntax: "url",
+  keepRatio: true,
+}
+
+export const suggestedOption: Partial<Options> = {
+  enabled: true,  // we recommend lazy users to enable this fantastic addon!
+}
+
+export type OptionValueType = Partial<Options> | boolean | SizeSyntax;
+
+declare global {
+  namespace HyperMD {
+    interface EditorConfiguration {
+      /**
+       * Options for ImageResize.
+       *
+       * You may also provide a `false` to disable it; a `true` to enable it with defaultOption (except `enabled`);
+       * or a SizeSyntax string to enable it with that syntax.
+       */
+      hmdImageResize?: OptionValueType
+    }
+  }
+}
+
+suggestedEditorConfig.hmdImageResize = suggestedOption
+
+CodeMirror.defineOption("hmdImageResize", defaultOption, function (cm: cm_t, newVal: OptionValueType) {
+
+  ///// convert newVal's type to `Partial<Options>`, if it is not.
+
+  if (!newVal || typeof newVal === "boolean") {
+    newVal = { enabled: !!newVal }
+  } else if (typeof newVal === "string") {
+    newVal = { enabled: true, syntax: newVal }
+  }
+
+  ///// apply config and write new values into cm
+
+  var inst = getAddon(cm)
+  for (var k in defaultOption) {
+    inst[k] = (k in newVal) ? newVal[k] : defaultOption[k]
+  }
+})
+
+//#endregion
+
+/********************************************************************************** */
+//#region Addon Class
+
+export class ImageResize implements Addon.Addon, Options {
+  enabled: boolean;
+  syntax: SizeSyntax;
+  keepRatio: boolean;
+
+  /** the resize handle, shown at the bottom-right corner of hovered image */
+  public handle: HTMLDivElement
+
+  /** the image that the handle belongs to */
+  public image: HTMLImageElement = null
+
+  private lineDiv: HTMLDivElement // CodeMirror's line container
+  private sizer: HTMLDivElement // where the handle lives. unlike lineDiv, its children are not rebuilt by CodeMirror
+
+  constructor(public cm: cm_t) {
+    // options will be initialized to defaultOption when constructor is finished
+
+    var lineDiv = cm.display.lineDiv as HTMLDivElement
+    this.lineDiv = lineDiv
+    this.sizer = cm.display.sizer as HTMLDivElement
+
+    var handle = document.createElement("div")
+    handle.setAttribute("style", "position:absolute;z-index:99")
+    handle.setAttribute("class", "hmd-image-resize-handle")
+    handle.setAttribute("cm-ignore-events", "true")
+    handle.addEventListener("mousedown", this._mouseDown, false)
+    this.handle = handle
+
+    new FlipFlop(
+      /* ON  */() => {
+        lineDiv.addEventListener("mouseenter", this._mouseEnter, true)
+        cm.on("scroll", this._hideHandle)
+      },
+      /* OFF */() => {
+        lineDiv.removeEventListener("mouseenter", this._mouseEnter, true)
+        cm.off("scroll", this._hideHandle)
+        this.hideHandle()
+      }
+    ).bind(this, "enabled", true)
+  }
+
+  private _mouseEnter = (ev: MouseEvent) => {
+    var target = ev.target as HTMLElement
+    if (target === this.handle || this._dragging) return
+
+    if (target.nodeName === "IMG" && /(?:^|\s)hmd-image(?:\s|$)/.test(target.className) && !/hmd-image-(?:loading|error)/.test(target.className)) {
+      this.showHandle(target as HTMLImageElement)
+    } else {
+      this.hideHandle()
+    }
+  }
+
+  private _hideHandle = () => { if (!this._dragging) this.hideHandle() }
+
+  /** put the handle at the bottom-right corner of the image */
+  showHandle(img: HTMLImageElement) {
+    const b1 = img.getBoundingClientRect()
+    const b2 = this.sizer.getBoundingClientRect()
+    const handle = this.handle
+
+    this.image = img
+    if (handle.parentElement !== this.sizer) this.sizer.appendChild(handle)
+
+    handle.style.left = (b1.right - b2.left - handle.offsetWidth) + 'px'
+    handle.style.top = (b1.bottom - b2.top - handle.offsetHeight) + 'px'
+  }
+
+  hideHandle() {
+    this.image = null
+    if (this.handle.parentElement === this.sizer) this.sizer.removeChild(this.handle)
+  }
+
+  /** find the TextMarker that folds the image */
+  findMarker(img: HTMLImageElement): TextMarker {
+    var marks = this.cm.getAllMarks()
+    for (let i = 0; i < marks.length; i++) {
+      if (marks[i]["replacedWith"] === img) return marks[i]
+    }
+    return null
+  }
+
+  /**
+   * Write the size of a folded image into Markdown.
+   *
+   * The image will be re-folded by *fold* addon later.
+   *
+   * @returns `false` if failed
+   */
+  setSize(img: HTMLImageElement, size: ImageSize) {
+    var marker = this.findMarker(img)
+    var range = marker && marker.find()
+    if (!range) return false
+
+    var cm = this.cm
+    var text = setImageSize(cm.getRange(range.from, range.to), size, this.syntax)
+    if (text === null) return false
+
+    cm.replaceRange(text, range.from, range.to)
+    return true
+  }
+
+  private _dragging = false
+
+  private _mouseDown = (ev: MouseEvent) => {
+    var img = this.image
+    if (!img || ev.button !== 0) return
+
+    ev.preventDefault()
+    ev.stopPropagation()
+
+    const startX = ev.clientX, startY = ev.clientY
+    const startWidth = img.offsetWidth, startHeight = img.offsetHeight
+    const ratio = startHeight / startWidth
+    var size: ImageSize = { width: startWidth, height: startHeight }
+
+    const mouseMove = (ev: MouseEvent) => {
+      size.width = Math.max(16, Math.round(startWidth + ev.clientX - startX))
+      size.height = this.keepRatio ? Math.round(size.width * ratio) : Math.max(16, Math.round(startHeight + ev.clientY - startY))
+
+      img.style.width = size.width + "px"
+      img.style.height = size.height + "px"
+      this.showHandle(img)
+    }
+
+    const mouseUp = () => {
+      document.removeEventListener("mousemove", mouseMove, false)
+      document.removeEventListener("mouseup", mouseUp, false)
+      this._dragging = false
+      this.hideHandle()
+
+      if (size.width !== startWidth || size.height !== startHeight) this.setSize(img, size)
+    }
+
+    this._dragging = true
+    document.addEventListener("mousemove", mouseMove, false)
+    document.addEventListener("mouseup", mouseUp, false)
+  }
+}
+
+//#endregion
+
+/** ADDON GETTER (Singleton Pattern): a editor can have only one ImageResize instance */
+export const getAddon = Addon.Getter("ImageResize", ImageResize, defaultOption /** if has options */)
+declare global { namespace HyperMD { interface HelperCollection { ImageResize?: ImageResize } } }
@@ -3,6 +3,10 @@
 //
 // DESCRIPTION: Insert images or files into Editor by pasting (Ctrl+V) or Drag'n'Drop
 //
+// Images can be scaled down and re-encoded before uploading, see `imageProcess` option.
+// Files can be uploaded via an upload queue, with concurrency limits and retrying.
+// Listen to the `hmdUploadProgress` event with `cm.on("hmdUploadProgress", (cm, stats, task) => ...)`
+//
 
 import * as CodeMirror from 'codemirror'
 import { Addon, FlipFlop, suggestedEditorConfig } from '../core'
@@ -43,21 +47,33 @@ export interface HandlerAction {
  * It's recommended (but not forced) to add "hmd-file-uploading" class to uploading item placeholders,
  * and "hmd-file-uploaded" to uploaded item placeholders.
  *
+ * Note: if `imageProcess` option is enabled, images in `files` are already processed.
+ *
  * @see FileHandler
  * @see HandlerAction
  */
-export type FileHandler = (files: FileList, action: HandlerAction) => boolean
+export type FileHandler = (files: ArrayLike<File>, action: HandlerAction) => boolean
+
+export interface AjaxOptions {
+  /** extra request headers, eg. `{ Authorization: "Bearer xxxx" }` */
+  headers?: Record<string, string>
+
+  /** called when some data is sent */
+  onProgress?: (loaded: number, total: number) => void
+}
 
 /**
  * send data to url
  *
  * @param method default: "POST"
+ * @returns the XMLHttpRequest. Call its `abort()` to cancel uploading, then `callback` gets an error
  */
 export function ajaxUpload(
   url: string,
   form: { [name: string]: string | File; },
   callback: (content, error) => void,
-  method?: string
+  method?: string,
+  options?: AjaxOptions
 ) {
   var xhr = new XMLHttpRequest()
   var formData = new FormData()
@@ -76,9 +92,413 @@ export function ajaxUpload(
     }
   }
 
+  if (options && options.onProgress && xhr.upload) {
+    const onProgress = options.onProgress
+    xhr.upload.onprogress = function (ev) {
+      if (ev.lengthComputable) onProgress(ev.loaded, ev.total)
+    }
+  }
+
   xhr.open(method || 'POST', url, true)
   // xhr.setRequestHeader("Content-Type", "multipart/form-data");
+  if (options && options.headers) {
+    for (var header in options.headers) xhr.setRequestHeader(header, options.headers[header])
+  }
   xhr.send(formData)
+
+  return xhr
+}
+
+/**
+ * Upload one file. Used by the upload queue of InsertFile addon.
+ *
+ * @param done call this when finished. if failed, `url` shall be `null`
+ * @param progress call this when some bytes are sent
+ * @returns optional. a function that aborts uploading
+ */
+export type UploadFunc = (file: File, done: (url: string) => void, progress: (loaded: number) => void) => void | (() => void)
+
+/**
+ * - `"waiting"` waiting for a free slot
+ * - `"retrying"` failed, will try again later
+ * - `"failed"` failed too many times. call `retryUpload(task)` to try again
+ */
+export type UploadStatus = "waiting" | "uploading" | "retrying" | "done" | "failed" | "canceled"
+
+/** A file in the upload queue */
+export interface UploadTask {
+  readonly file: File
+  readonly upload: UploadFunc
+
+  status: UploadStatus
+
+  /** how many times it has been tried */
+  attempts: number
+
+  /** sent bytes */
+  loaded: number
+
+  /** the URL of uploaded file, if done */
+  url: string
+
+  /** called when the status or progress is changed */
+  onChange: (task: UploadTask) => void
+
+  /** abort uploading, or the retrying timer */
+  abort: () => void
+}
+
+/** Summary of the upload queue. Sent with the `hmdUploadProgress` event */
+export interface UploadStats {
+  /** number of files in the queue */
+  total: number
+  /** number of files waiting or retrying */
+  waiting: number
+  uploading: number
+  done: number
+  failed: number
+
+  /** sent bytes of all files */
+  loaded: number
+  /** total bytes of all files */
+  size: number
+}
+
+/** escape special chars in a file name, so that it can be used as the text of a Markdown link */
+export function escapeFileName(name: string) {
+  return name.replace(/[\[\]\\]/g, "\\$&")
+}
+
+//#endregion
+
+/********************************************************************************** */
+//#region Image Processing
+
+export interface ImageProcessOptions {
+  /** max width and height, in pixels. Larger images are scaled down. `0` means unlimited */
+  maxSize: number
+
+  /** the output format, eg. "image/jpeg" or "image/webp". `""` means keeping the original format */
+  type: string
+
+  /** quality of JPEG or WebP, from 0 to 1 */
+  quality: number
+}
+
+export const defaultImageProcessOptions: ImageProcessOptions = {
+  maxSize: 2048,
+  type: "image/jpeg",
+  quality: 0.85,
+}
+
+/** formats that can be processed. GIFs are skipped, because they might be animated */
+const processableRE = /^image\/(?:jpeg|png|webp|bmp)$/
+
+const extensions: Record<string, string> = {
+  "image/jpeg": ".jpg",
+  "image/png": ".png",
+  "image/webp": ".webp",
+}
+
+/**
+ * Read the orientation from the EXIF data of a JPEG file
+ *
+ * @param data the beginning of a JPEG file. 64KB is enough
+ * @returns 1 to 8. `1` means no rotation, or not found
+ */
+export function getJPEGOrientation(data: ArrayBuffer): number {
+  var view = new DataView(data)
+
+  try {
+    if (view.getUint16(0) !== 0xFFD8) return 1 // not a JPEG
+
+    var offset = 2
+    while (offset + 4 <= view.byteLength) {
+      const marker = view.getUint16(offset)
+      if ((marker & 0xFF00) !== 0xFF00 || marker === 0xFFDA) break // bad marker, or start of image data
+
+      if (marker === 0xFFE1 && view.getUint32(offset + 4) === 0x45786966) { // APP1 "Exif"
+        const tiff = offset + 10
+        const little = view.getUint16(tiff) === 0x4949 // "II"
+        const ifd = tiff + view.getUint32(tiff + 4, little)
+        const count = view.getUint16(ifd, little)
+
+        for (let i = 0; i < count; i++) {
+          const entry = ifd + 2 + i * 12
+          if (view.getUint16(entry, little) === 0x0112) return view.getUint16(entry + 8, little) || 1
+        }
+        return 1
+      }
+
+      offset += 2 + view.getUint16(offset + 2)
+    }
+  } catch (err) {
+    // broken EXIF data, out of range
+  }
+
+  return 1
+}
+
+var _autoRotated: boolean = null
+
+/** check if browser rotates images according to EXIF, via CSS `image-orientation: from-image` */
+function isAutoRotated() {
+  if (_autoRotated === null) {
+    var img = document.createElement("img")
+    document.body.appendChild(img)
+    _autoRotated = getComputedStyle(img)["imageOrientation"] === "from-image"
+    document.body.removeChild(img)
+  }
+  return _autoRotated
+}
+
+/**
+ * Scale down an image, apply the EXIF orientation, and re-encode it. EXIF data is removed.
+ *
+ * @param callback receives the processed image. If not processable, the original file is given
+ */
+export function processImage(file: File, options: ImageProcessOptions, callback: (file: File) => void) {
+  if (!processableRE.test(file.type) || typeof URL === 'undefined') { callback(file); return }
+
+  var reader = new FileReader()
+  reader.onload = () => {
+    const orientation = file.type === "image/jpeg" ? getJPEGOrientation(reader.result as ArrayBuffer) : 1
+    const blobURL = URL.createObjectURL(file)
+    const img = document.createElement("img")
+
+    img.onload = () => {
+      URL.revokeObjectURL(blobURL)
+      draw(img, (isAutoRotated() ? 1 : orientation))
+    }
+    img.onerror = () => {
+      URL.revokeObjectURL(blobURL)
+      callback(file)
+    }
+    img.src = blobURL
+  }
+  reader.onerror = () => callback(file)
+  reader.readAsArrayBuffer(file.slice(0, 65536))
+
+  function draw(img: HTMLImageElement, orientation: number) {
+    const isSwapped = orientation >= 5
+    const iw = img.naturalWidth, ih = img.naturalHeight
+    const scale = options.maxSize > 0 ? Math.min(1, options.maxSize / Math.max(iw, ih)) : 1
+    const w = Math.round(iw * scale), h = Math.round(ih * scale) // size before rotation
+
+    const canvas = document.createElement("canvas")
+    canvas.width = isSwapped ? h : w
+    canvas.height = isSwapped ? w : h
+
+    const type = options.type || file.type
+    const ctx = canvas.getContext("2d")
+    if (!ctx || !canvas.toBlob) { callback(file); return }
+
+    if (type === "image/jpeg") { // JPEG has no transparency
+      ctx.fillStyle = "#fff"
+      ctx.fillRect(0, 0, canvas.width, canvas.height)
+    }
+
+    switch (orientation) {
+      case 2: ctx.transform(-1, 0, 0, 1, w, 0); break
+      case 3: ctx.transform(-1, 0, 0, -1, w, h); break
+      case 4: ctx.transform(1, 0, 0, -1, 0, h); break
+      case 5: ctx.transform(0, 1, 1, 0, 0, 0); break
+      case 6: ctx.transform(0, 1, -1, 0, h, 0); break
+      case 7: ctx.transform(0, -1, -1, 0, h, w); break
+      case 8: ctx.transform(0, -1, 1, 0, 0, w); break
+    }
+    ctx.drawImage(img, 0, 0, w, h)
+
+    canvas.toBlob((blob) => {
+      if (!blob) { callback(file); return }
+
+      // if the format is not supported, browser gives a PNG
+      const name = file.name.replace(/\.\w+$/, "") + (extensions[blob.type] || "")
+      var result: File
+      try {
+        result = new File([blob], name, { type: blob.type, lastModified: file.lastModified })
+      } catch (err) { // old browsers don't have File constructor
+        blob["name"] = name
+        result = blob as File
+      }
+      callback(result)
+    }, type, options.quality)
+  }
+}
+
+/**
+ * Process images one by one. Other files are kept as is.
+ *
+ * @see processImage
+ */
+export function processImages(files: ArrayLike<File>, options: ImageProcessOptions, callback: (files: File[]) => void) {
+  var results: File[] = []
+  var next = () => {
+    const i = results.length
+    if (i >= files.length) { callback(results); return }
+    processImage(files[i], options, (file) => {
+      results.push(file)
+      next()
+    })
+  }
+  next()
+}
+
+//#endregion
+
+/********************************************************************************** */
+//#region HTTP Uploader
+
+export interface UploaderOptions {
+  /** where to upload files. eg. "https://example.com/upload" */
+  url: string
+
+  /** default: "POST" */
+  method?: string
+
+  /** name of the file field in the form. default: "file" */
+  fieldName?: string
+
+  /** extra form fields */
+  data?: Record<string, string>
+
+  /** extra request headers, eg. `{ Authorization: "Bearer xxxx" }` */
+  headers?: Record<string, string>
+
+  /**
+   * extract the URL of uploaded file, from server's response.
+   *
+   * If not given, `response.url` or `response.data.url` is used; or the response itself if it's a string.
+   *
+   * @param response parsed as JSON if possible
+   * @returns `null` if failed
+   */
+  getURL?: (response: any, file: File) => string
+
+  /** max size of each file, in bytes. `0` means unlimited */
+  maxSize?: number
+
+  /** accepted MIME types, eg. `["image/*", "application/pdf"]`. If not given, all files are accepted */
+  accept?: string[]
+}
+
+/** the default `UploaderOptions.getURL` */
+export function getURLFromResponse(response: any): string {
+  if (typeof response === "string") return /^\s*(\S+)\s*$/.test(response) ? response.trim() : null
+  if (!response) return null
+  return response.url || (response.data && response.data.url) || null
+}
+
+/** check if the MIME type matches one of the patterns, like "image/*" */
+function isAccepted(type: string, patterns: string[]) {
+  for (let i = 0; i < patterns.length; i++) {
+    const pattern = patterns[i].toLowerCase()
+    if (pattern === "*" || pattern === "*/*") return true
+    if (/\/\*$/.test(pattern) ? type.indexOf(pattern.slice(0, -1)) === 0 : type === pattern) return true
+  }
+  return false
+}
+
+/**
+ * Make a FileHandler that uploads files via HTTP, with the upload queue of InsertFile addon.
+ *
+ * While uploading, each file gets a placeholder with a progress bar and a cancel button.
+ * If failed too many times, click the placeholder to try again.
+ *
+ * Once all files are done or canceled, images are inserted as `![name](url)`, and other files as `[name](url)`.
+ *
+ * @example
+ *
+ *     editor.setOption("hmdInsertFile", createUploader({
+ *       url: "https://example.com/upload",
+ *       headers: { Authorization: "Bearer xxxx" },
+ *       maxSize: 5 * 1024 * 1024,
+ *       accept: ["image/*", "application/pdf"],
+ *     }))
+ */
+export function createUploader(options: UploaderOptions): FileHandler {
+  const fieldName = options.fieldName || "file"
+  const getURL = options.getURL || getURLFromResponse
+
+  const upload: UploadFunc = (file, done, progress) => {
+    var form: Record<string, string | File> = {}
+    for (const key in options.data) form[key] = options.data[key]
+    form[fieldName] = file
+
+    var xhr = ajaxUpload(
+      options.url,
+      form,
+      (response) => done(response ? getURL(response, file) : null),
+      options.method,
+      { headers: options.headers, onProgress: progress }
+    )
+    return () => xhr.abort()
+  }
+
+  return function (files, action) {
+    var accepted: File[] = []
+    for (let i = 0; i < files.length; i++) {
+      const file = files[i]
+      if (options.maxSize && file.size > options.maxSize) continue
+      if (options.accept && !isAccepted(file.type, options.accept)) continue
+      accepted.push(file)
+    }
+
+    if (!accepted.length) return false
+
+    const insertFile = getAddon(action.cm)
+    var texts: string[] = []
+    var unfinishedCount = accepted.length
+
+    /** a container for all uploading files */
+    var placeholderForAll = document.createElement("span")
+    placeholderForAll.className = "hmd-upload-items"
+    action.setPlaceholder(placeholderForAll)
+
+    for (let i = 0; i < accepted.length; i++) {
+      const file = accepted[i]
+      const name = file.name.match(/[^\\\/]*$/)[0]
+
+      const placeholder = document.createElement("span")
+      placeholder.innerHTML = '<span class="hmd-upload-name"></span><span class="hmd-upload-progress"><span class="hmd-upload-progress-bar"></span></span><span class="hmd-upload-cancel" title="Cancel">\u00d7</span>'
+      placeholder.firstChild.textContent = name
+      placeholderForAll.appendChild(placeholder)
+
+      const bar = placeholder.querySelector(".hmd-upload-progress-bar") as HTMLElement
+      const cancelButton = placeholder.lastChild as HTMLElement
+
+      const task = insertFile.enqueueUpload(file, upload, (task) => {
+        const status = task.status
+        const isFinished = status === "done" || status === "canceled"
+
+        placeholder.className = "hmd-upload-item hmd-upload-" + status + " " + (
+          status === "done" ? "hmd-file-uploaded" :
+            status === "failed" ? "hmd-file-failed" :
+              "hmd-file-uploading"
+        )
+        placeholder.title = status === "failed" ? "Click to retry" : ""
+        bar.style.width = (file.size ? Math.min(task.loaded / file.size * 100, 100) : 0).toFixed(1) + "%"
+
+        if (isFinished && cancelButton.parentNode) {
+          placeholder.removeChild(cancelButton)
+          if (status === "done" && task.url) texts[i] = `${/^image\//.test(file.type) ? "!" : ""}[${escapeFileName(name)}](${task.url})`
+          if (--unfinishedCount === 0) {
+            texts = texts.filter(it => !!it)
+            action.finish(texts.length ? texts.join(" ") + " " : "")
+          }
+        }
+      })
+
+      placeholder.addEventListener("click", () => insertFile.retryUpload(task), false)
+      cancelButton.addEventListener("click", (ev) => {
+        ev.stopPropagation()
+        insertFile.cancelUpload(task)
+      }, false)
+    }
+
+    action.resize()
+    return true
+  }
 }
 
 //#endregion
@@ -104,12 +524,36 @@ export interface Options extends Addon.AddonOptions {
    * @see HandlerAction
    */
   fileHandler: FileHandler
+
+  /** max number of files uploading at the same time, in the upload queue. `0` means unlimited */
+  concurrency: number
+
+  /** if failed, how many more times shall a file be tried, in the upload queue */
+  retries: number
+
+  /** milliseconds to wait before the first retry. it doubles after each retry */
+  retryDelay: number
+
+  /**
+   * Process images before passing them to the FileHandler: scale down, apply EXIF orientation and re-encode.
+   *
+   * - `false` -- disabled
+   * - `true` -- use `defaultImageProcessOptions`
+   * - or an object, overwriting some of `defaultImageProcessOptions`
+   *
+   * @see ImageProcessOptions
+   */
+  imageProcess: boolean | Partial<ImageProcessOptions>
 }
 
 export const defaultOption: Options = {
   byDrop: false,
   byPaste: false,
   fileHandler: null,
+  concurrency: 3,
+  retries: 2,
+  retryDelay: 1000,
+  imageProcess: false,
 }
 
 export const suggestedOption: Partial<Options> = {
@@ -165,6 +609,20 @@ export class InsertFile implements Addon.Addon, Options /* if needed */ {
   byPaste: boolean;
   byDrop: boolean;
   fileHandler: FileHandler;
+  concurrency: number;
+  retries: number;
+  retryDelay: number;
+  imageProcess: boolean | Partial<ImageProcessOptions>;
+
+  /**
+   * Files in the upload queue.
+   * Once all files are done or canceled, the queue is cleared.
+   *
+   * Listen to `cm.on("hmdUploadProgress", (cm, stats, task) => ...)` to get notified when it changes.
+   *
+   * @see UploadStats
+   */
+  uploads: UploadTask[] = []
 
   constructor(public cm: cm_t) {
     // options will be initialized to defaultOption when constructor is finished
@@ -238,6 +696,28 @@ export class InsertFile implements Addon.Addon, Options /* if needed */ {
         }
       }
 
+      var processOptions = this.getImageProcessOptions()
+      var hasImage = false
+      for (let i = 0; i < files.length; i++) {
+        if (processableRE.test(files[i].type)) { hasImage = true; break }
+      }
+
+      if (processOptions && hasImage) {
+        // process images asynchronously, then pass them to fileHandler
+        var placeholder = document.createElement("span")
+        placeholder.className = "hmd-file-uploading hmd-file-processing"
+        placeholder.textContent = "..."
+        action.setPlaceholder(placeholder)
+
+        processImages(files, processOptions, (processed) => {
+          if (!marker.find()) return // placeholder is removed
+          if (!fileHandler(processed, action)) action.finish("")
+        })
+
+        handled = true
+        return
+      }
+
       handled = fileHandler(files, action)
 
       if (!handled) marker.clear()
@@ -246,6 +726,152 @@ export class InsertFile implements Addon.Addon, Options /* if needed */ {
     return handled
   }
 
+  /** get ImageProcessOptions from `imageProcess` option. returns `null` if disabled */
+  getImageProcessOptions(): ImageProcessOptions {
+    var imageProcess = this.imageProcess
+    if (!imageProcess) return null
+    if (imageProcess === true) return defaultImageProcessOptions
+    return { ...defaultImageProcessOptions, ...imageProcess }
+  }
+
+  /**
+   * Add a file into the upload queue. It will be uploaded once there is a free slot.
+   *
+   * @param onChange called when the status or progress is changed
+   */
+  enqueueUpload(file: File, upload: UploadFunc, onChange?: (task: UploadTask) => void): UploadTask {
+    var task: UploadTask = {
+      file,
+      upload,
+      status: "waiting",
+      attempts: 0,
+      loaded: 0,
+      url: null,
+      onChange: onChange || null,
+      abort: null,
+    }
+
+    this.uploads.push(task)
+    this._updateTask(task)
+    this._runQueue()
+    return task
+  }
+
+  /** try again to upload a failed file */
+  retryUpload(task: UploadTask) {
+    if (task.status !== "failed") return
+
+    task.status = "waiting"
+    task.attempts = 0
+    this._updateTask(task)
+    this._runQueue()
+  }
+
+  /** stop uploading a file, and remove it from the upload queue */
+  cancelUpload(task: UploadTask) {
+    if (task.status === "done" || task.status === "canceled") return
+
+    var abort = task.abort
+    task.status = "canceled"
+    task.abort = null
+    if (abort) abort()
+
+    this._updateTask(task)
+    this._runQueue()
+  }
+
+  getUploadStats(): UploadStats {
+    var ans: UploadStats = { total: 0, waiting: 0, uploading: 0, done: 0, failed: 0, loaded: 0, size: 0 }
+    var uploads = this.uploads
+    for (let i = 0; i < uploads.length; i++) {
+      const task = uploads[i]
+      if (task.status === "canceled") continue
+
+      ans.total++
+      ans.size += task.file.size
+      ans.loaded += Math.min(task.loaded, task.file.size)
+
+      if (task.status === "retrying") ans.waiting++
+      else ans[task.status]++
+    }
+    return ans
+  }
+
+  /** start waiting tasks if there are free slots. clear the queue if all done */
+  private _runQueue() {
+    var uploads = this.uploads
+    var uploading = 0, settled = 0
+
+    for (let i = 0; i < uploads.length; i++) {
+      const status = uploads[i].status
+      if (status === "uploading") uploading++
+      else if (status === "done" || status === "canceled") settled++
+    }
+
+    if (settled === uploads.length) {
+      this.uploads = []
+      return
+    }
+
+    for (let i = 0; i < uploads.length; i++) {
+      if (this.concurrency > 0 && uploading >= this.concurrency) break
+      if (uploads[i].status !== "waiting") continue
+
+      this._startTask(uploads[i])
+      uploading++
+    }
+  }
+
+  private _startTask(task: UploadTask) {
+    var finished = false
+
+    const done = (url: string) => {
+      if (finished || task.status !== "uploading") return // canceled
+      finished = true
+      task.abort = null
+
+      if (url) {
+        task.status = "done"
+        task.url = url
+        task.loaded = task.file.size
+      } else if (task.attempts <= this.retries) {
+        const timer = setTimeout(() => {
+          task.abort = null
+          task.status = "waiting"
+          this._runQueue()
+        }, this.retryDelay * Math.pow(2, task.attempts - 1))
+
+        task.status = "retrying"
+        task.abort = () => clearTimeout(timer)
+      } else {
+        task.status = "failed"
+      }
+
+      this._updateTask(task)
+      this._runQueue()
+    }
+
+    const progress = (loaded: number) => {
+      if (finished || task.status !== "uploading") return
+      task.loaded = loaded
+      this._updateTask(task)
+    }
+
+    task.status = "uploading"
+    task.attempts++
+    task.loaded = 0
+    this._updateTask(task)
+
+    var abort = task.upload(task.file, done, progress)
+    if (!finished && typeof abort === 'function') task.abort = abort
+  }
+
+  /** call `task.onChange` and emit `hmdUploadProgress` event */
+  private _updateTask(task: UploadTask) {
+    if (typeof task.onChange === 'function') task.onChange(task)
+    CodeMirror.signal(this.cm, "hmdUploadProgress", this.cm, this.getUploadStats(), task)
+  }
+
   private pasteHandle = (cm: cm_t, ev: ClipboardEvent) => {
     if (!this.doInsert(ev.clipboardData || window['clipboardData'])) return
     ev.preventDefault()
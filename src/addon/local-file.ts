@@ -0,0 +1,489 @@
+// HyperMD, copyright (c) by laobubu
+// Distributed under an MIT license: http://laobubu.net/HyperMD/LICENSE
+//
+// DESCRIPTION: Store inserted files locally (IndexedDB or localStorage), and show them via `hmd-file://` URLs
+//
+// Works with *insert-file* addon. Set `hmdInsertFile` option to `LocalFileHandler`,
+// then inserted files are saved into a LocalFileStore, and `![name](hmd-file://id)` is written into the document.
+//
+// With *read-link* addon, `hmdResolveURL` turns `hmd-file://id` into a blob URL or data URI,
+// so *fold* and *click* addons can show and open them.
+//
+// Blob URLs of folded images are revoked when the images are no longer shown by any editor, or the store is replaced.
+//
+
+import * as CodeMirror from 'codemirror'
+import { Addon, debounce, suggestedEditorConfig } from '../core'
+import { TextMarker } from 'codemirror'
+import { cm_t } from '../core/type'
+import { FileHandler, escapeFileName } from './insert-file'
+import { registerURLResolver, splitLink } from './read-link'
+
+/********************************************************************************** */
+//#region LocalFileStore
+
+export const scheme = "hmd-file"
+
+/** A place to save files, like a tiny file system */
+export interface LocalFileStore {
+  /**
+   * Save a file.
+   *
+   * @param callback called when finished. if failed, `id` will be `null`
+   */
+  save(file: Blob, callback: (id: string) => void): void
+
+  /**
+   * Get a URL (eg. blob URL or data URI) that displays the file.
+   *
+   * @returns `null` if not available now. For asynchronous stores, call `load()` and try again
+   */
+  getURL(id: string): string
+
+  /**
+   * Load the file, so that `getURL(id)` works.
+   *
+   * Can be omitted if the store is synchronous.
+   *
+   * @param callback called when finished. if failed, `url` will be `null`
+   */
+  load?(id: string, callback: (url: string) => void): void
+
+  /**
+   * Release the resources of a loaded file, eg. revoke its blob URL.
+   * After this, `getURL(id)` returns `null` until the file is loaded again.
+   *
+   * Can be omitted if there is nothing to release.
+   */
+  release?(id: string): void
+}
+
+/** make a new random file id */
+export function makeFileID() {
+  return new Date().getTime().toString(36) + Math.random().toString(36).slice(2, 8)
+}
+
+/** get file id from a `hmd-file://id` URL. returns `null` if not matched */
+export function getFileID(url: string): string {
+  var mat = url.match(/^hmd-file:\/*([\w-]+)/i)
+  return mat && mat[1]
+}
+
+/**
+ * Get the file id of a folded image, like `![name](hmd-file://id)` or `![name][ref]`.
+ *
+ * @returns `null` if the image is not a local file, or the marker is cleared
+ */
+export function getImageFileID(cm: cm_t, marker: TextMarker): string {
+  var range = marker.find()
+  if (!range) return null
+
+  var mat = cm.getRange(range.from, range.to).match(/^!\[[^\]]*\](?:\(([^\)]*)\)|\[([^\]]*)\])/)
+  if (!mat) return null
+
+  var content = mat[1]
+  if (content === undefined) {
+    let link = cm.hmdReadLink(mat[2], range.from.line)
+    if (!link) return null
+    content = link.content
+  }
+  return getFileID(splitLink(content).url)
+}
+
+/**
+ * Save files as data URI into `localStorage`.
+ *
+ * Note: browsers usually limit localStorage to 5MB. Large files are rejected.
+ */
+export class DataURIStore implements LocalFileStore {
+  /**
+   * @param sizeLimit max size of each file, in bytes
+   * @param prefix the prefix of localStorage keys
+   */
+  constructor(
+    public sizeLimit: number = 1024 * 1024,
+    public prefix: string = "hmd-file:",
+    public storage: Storage = window.localStorage
+  ) {
+  }
+
+  save(file: Blob, callback: (id: string) => void) {
+    if (file.size > this.sizeLimit) { callback(null); return }
+
+    var reader = new FileReader()
+    reader.onload = () => {
+      var id = makeFileID()
+      try {
+        this.storage.setItem(this.prefix + id, reader.result as string)
+      } catch (err) {
+        id = null // quota exceeded
+      }
+      callback(id)
+    }
+    reader.onerror = () => callback(null)
+    reader.readAsDataURL(file)
+  }
+
+  getURL(id: string) {
+    return this.storage.getItem(this.prefix + id)
+  }
+}
+
+/**
+ * Save files into IndexedDB. Files are displayed via blob URLs.
+ */
+export class IndexedDBStore implements LocalFileStore {
+  /** loaded files. id => blob URL */
+  private urls: Record<string, string> = {}
+
+  /** loading files. id => callbacks */
+  private loading: Record<string, ((url: string) => void)[]> = {}
+
+  private db: IDBDatabase = null
+  private dbCallbacks: ((db: IDBDatabase) => void)[] = null
+
+  /**
+   * @param dbName name of the IndexedDB database
+   * @param storeName name of the object store, which holds the files
+   */
+  constructor(
+    public dbName: string = "hypermd-files",
+    public storeName: string = "files"
+  ) {
+  }
+
+  /** open the database. if failed, `db` will be `null` */
+  private openDB(callback: (db: IDBDatabase) => void) {
+    if (this.db) { callback(this.db); return }
+    if (this.dbCallbacks) { this.dbCallbacks.push(callback); return }
+
+    var callbacks = this.dbCallbacks = [callback]
+    var done = (db: IDBDatabase) => {
+      this.db = db
+      this.dbCallbacks = null
+      for (let i = 0; i < callbacks.length; i++) callbacks[i](db)
+    }
+
+    var req = indexedDB.open(this.dbName, 1)
+    req.onupgradeneeded = () => { req.result.createObjectStore(this.storeName) }
+    req.onsuccess = () => done(req.result)
+    req.onerror = () => done(null)
+  }
+
+  save(file: Blob, callback: (id: string) => void) {
+    this.openDB(db => {
+      if (!db) { callback(null); return }
+
+      var id = makeFileID()
+      var req = db.transaction(this.storeName, "readwrite").objectStore(this.storeName).put(file, id)
+      req.onsuccess = () => {
+        this.urls[id] = URL.createObjectURL(file)
+        callback(id)
+      }
+      req.onerror = () => callback(null)
+    })
+  }
+
+  getURL(id: string) {
+    return this.urls[id] || null
+  }
+
+  load(id: string, callback: (url: string) => void) {
+    if (id in this.urls) { callback(this.urls[id]); return }
+    if (this.loading[id]) { this.loading[id].push(callback); return }
+
+    var callbacks = this.loading[id] = [callback]
+    var done = (url: string) => {
+      if (url) this.urls[id] = url
+      delete this.loading[id]
+      for (let i = 0; i < callbacks.length; i++) callbacks[i](url)
+    }
+
+    this.openDB(db => {
+      if (!db) { done(null); return }
+
+      var req = db.transaction(this.storeName, "readonly").objectStore(this.storeName).get(id)
+      req.onsuccess = () => done(req.result ? URL.createObjectURL(req.result) : null)
+      req.onerror = () => done(null)
+    })
+  }
+
+  release(id: string) {
+    if (!(id in this.urls)) return
+    URL.revokeObjectURL(this.urls[id])
+    delete this.urls[id]
+  }
+}
+
+/** the default store. IndexedDBStore if available, otherwise DataURIStore */
+export var defaultStore: LocalFileStore =
+  (typeof indexedDB !== 'undefined') ? new IndexedDBStore() :
+    (typeof localStorage !== 'undefined') ? new DataURIStore() :
+      null
+
+/** how many editors are using each loaded file, per store */
+var usingCounts: { store: LocalFileStore, counts: Record<string, number> }[] = []
+
+/** mark a file as used by one more editor */
+function retainFile(store: LocalFileStore, id: string) {
+  var item = usingCounts.filter(it => it.store === store)[0]
+  if (!item) usingCounts.push(item = { store, counts: {} })
+  item.counts[id] = (item.counts[id] || 0) + 1
+}
+
+/** mark a file as used by one less editor. Once no editor uses it, release it from the store */
+function releaseFile(store: LocalFileStore, id: string) {
+  var item = usingCounts.filter(it => it.store === store)[0]
+  if (!item || !item.counts[id]) return
+  if (--item.counts[id] > 0) return
+
+  delete item.counts[id]
+  if (!Object.keys(item.counts).length) usingCounts.splice(usingCounts.indexOf(item), 1)
+  if (typeof store.release === 'function') store.release(id)
+}
+
+//#endregion
+
+/********************************************************************************** */
+//#region FileHandler
+
+/**
+ * A FileHandler that saves files into current editor's LocalFileStore,
+ * then inserts `![name](hmd-file://id)` for images, or `[name](hmd-file://id)` for other files.
+ *
+ * Not enabled by default. Use it via `hmdInsertFile` option, or set it to `defaultOption.fileHandler` of *insert-file*
+ *
+ * @see Options.store
+ */
+export const LocalFileHandler: FileHandler = function (files, action) {
+  const store = getAddon(action.cm).store
+  if (!store || !files.length) return false
+
+  var unfinishedCount = files.length
+  var texts: string[] = []
+
+  /** a container for all saving files */
+  var placeholderForAll = document.createElement("span")
+  placeholderForAll.className = "hmd-local-file-items"
+  action.setPlaceholder(placeholderForAll)
+
+  for (let i = 0; i < files.length; i++) {
+    const file = files[i]
+    const isImage = /^image\//.test(file.type)
+    const fileName = file.name.match(/[^\\\/]*$/)[0]
+    const name = escapeFileName(fileName)
+
+    const placeholder = document.createElement("span")
+    placeholder.className = "hmd-file-uploading"
+    placeholder.textContent = fileName
+    placeholderForAll.appendChild(placeholder)
+
+    store.save(file, (id) => {
+      placeholder.className = "hmd-file-uploaded"
+      texts[i] = id ? `${isImage ? "!" : ""}[${name}](${scheme}://${id})` : ""
+
+      if (--unfinishedCount === 0) {
+        action.finish(texts.filter(it => !!it).join(" ") + " ")
+      }
+    })
+  }
+
+  action.resize()
+  return true
+}
+
+//#endregion
+
+/********************************************************************************** */
+//#region URLResolver
+
+registerURLResolver(scheme, (url, cm) => {
+  var id = getFileID(url)
+  if (!id) return null
+  return getAddon(cm).getURL(id)
+})
+
+//#endregion
+
+/********************************************************************************** */
+//#region Addon Options
+
+export interface Options extends Addon.AddonOptions {
+  /**
+   * where to save inserted files, and read `hmd-file://` URLs from
+   *
+   * @see defaultStore
+   */
+  store: LocalFileStore
+}
+
+export const defaultOption: Options = {
+  store: defaultStore,
+}
+
+export const suggestedOption: Partial<Options> = {
+}
+
+export type OptionValueType = Partial<Options> | LocalFileStore;
+
+declare global {
+  namespace HyperMD {
+    interface EditorConfiguration {
+      /**
+       * Options for LocalFile.
+       *
+       * You may also provide a LocalFileStore directly.
+       *
+       * To save inserted files with it, set `hmdInsertFile` option to `LocalFileHandler`
+       */
+      hmdLocalFile?: OptionValueType
+    }
+  }
+}
+
+suggestedEditorConfig.hmdLocalFile = suggestedOption
+
+CodeMirror.defineOption("hmdLocalFile", defaultOption, function (cm: cm_t, newVal: OptionValueType) {
+
+  ///// convert newVal's type to `Partial<Options>`, if it is not.
+
+  if (!newVal) {
+    newVal = {}
+  } else if (typeof newVal["getURL"] === "function") {
+    newVal = { store: newVal as LocalFileStore }
+  }
+
+  ///// apply config and write new values into cm
+
+  var inst = getAddon(cm)
+  var oldStore = inst.store
+  for (var k in defaultOption) {
+    inst[k] = (k in newVal) ? newVal[k] : defaultOption[k]
+  }
+
+  if (inst.store !== oldStore) inst.releaseAll(oldStore)
+})
+
+//#endregion
+
+/********************************************************************************** */
+//#region Addon Class
+
+export class LocalFile implements Addon.Addon, Options {
+  store: LocalFileStore;
+
+  /** folded images of local files, and their file ids */
+  private _marks: { marker: TextMarker, id: string }[] = []
+
+  /** ids of files, whose URLs are used by folded images. Each of them is retained once by this editor */
+  private _loadedIDs: Record<string, boolean> = {}
+
+  constructor(public cm: cm_t) {
+    // options will be initialized to defaultOption when constructor is finished
+  }
+
+  /**
+   * Get a URL that displays the file.
+   *
+   * If the file is not loaded yet, returns `null` and starts loading it.
+   * Once loaded, images will be folded again.
+   */
+  getURL(id: string): string {
+    const store = this.store
+    if (!store) return null
+
+    var url = store.getURL(id)
+    if (!url && typeof store.load === 'function') {
+      store.load(id, (url) => { if (url) this.refoldImages() })
+    }
+    if (url) this.watchImages()
+    return url
+  }
+
+  /**
+   * fold again the images of local files, so they can get new URLs.
+   *
+   * Note: an image may be still loading the old URL. Whatever its state is, it will be folded again.
+   */
+  refoldImages = debounce(() => {
+    var fold = this.cm.hmd.Fold
+    var folded = fold && fold.folded["image"]
+    if (!folded) return
+
+    this.cm.operation(() => {
+      for (let i = folded.length - 1; i >= 0; i--) {
+        if (!getImageFileID(this.cm, folded[i])) continue
+        folded[i].clear() // the marker will be removed from `folded`
+      }
+      fold.startFold()
+    })
+  }, 100)
+
+  /** (debounced) find new folded images of local files. Once cleared, their files will be released */
+  watchImages = debounce(() => {
+    var fold = this.cm.hmd.Fold
+    var folded = fold && fold.folded["image"]
+    if (!folded) return
+
+    var marks = this._marks
+    for (let i = 0; i < folded.length; i++) {
+      const marker = folded[i]
+      if (marks.some(it => it.marker === marker)) continue
+
+      const id = getImageFileID(this.cm, marker)
+      if (!id) continue
+
+      const mark = { marker, id }
+      marks.push(mark)
+      if (!this._loadedIDs[id]) {
+        this._loadedIDs[id] = true
+        retainFile(this.store, id)
+      }
+      marker.on('clear', () => {
+        marks.splice(marks.indexOf(mark), 1)
+        this.releaseUnused()
+      })
+    }
+  }, 100)
+
+  /**
+   * (debounced) release files which are not shown by any folded image of this editor.
+   * Files still shown by other editors are kept.
+   *
+   * The delay shall be longer than folding, so images being folded again are not affected.
+   */
+  releaseUnused = debounce(() => {
+    var store = this.store
+    if (!store) return
+
+    var used: Record<string, boolean> = {}
+    for (let i = 0; i < this._marks.length; i++) used[this._marks[i].id] = true
+
+    for (const id in this._loadedIDs) {
+      if (used[id]) continue
+      releaseFile(store, id)
+      delete this._loadedIDs[id]
+    }
+  }, 1000)
+
+  /**
+   * release all files used by folded images of this editor, then fold them again.
+   * Files still shown by other editors are kept.
+   *
+   * @param store where the files are from. default: current store
+   */
+  releaseAll(store: LocalFileStore = this.store) {
+    this.releaseUnused.stop()
+    if (store) {
+      for (const id in this._loadedIDs) releaseFile(store, id)
+    }
+    this._loadedIDs = {}
+    this.refoldImages()
+  }
+}
+
+//#endregion
+
+/** ADDON GETTER (Singleton Pattern): a editor can have only one LocalFile instance */
+export const getAddon = Addon.Getter("LocalFile", LocalFile, defaultOption /** if has options */)
+declare global { namespace HyperMD { interface HelperCollection { LocalFile?: LocalFile } } }
@@ -0,0 +1,367 @@
+// HyperMD, copyright (c) by laobubu
+// Distributed under an MIT license: http://laobubu.net/HyperMD/LICENSE
+//
+// DESCRIPTION: Maintain a heading tree of the document, and render a live TOC in place of [TOC]
+//
+// Listen to the `hmdOutlineChange` event with `cm.on("hmdOutlineChange", (cm, outline) => ...)`
+//
+
+import * as CodeMirror from 'codemirror'
+import { Addon, FlipFlop, debounce, suggestedEditorConfig } from '../core'
+import { cm_t } from '../core/type'
+import { HyperMDState } from '../mode/hypermd'
+import { registerFolder, breakMark, FolderFunc, RequestRangeResult } from './fold'
+
+/********************************************************************************** */
+
+export interface OutlineItem {
+  level: number
+  /** heading text, with Markdown markups removed */
+  text: string
+  line: number
+  /** a unique anchor name, like GitHub does. eg. "getting-started-1" */
+  slug: string
+  children: OutlineItem[]
+}
+
+/**
+ * Render the outline into the container, which will replace the `[TOC]` line.
+ *
+ * Note: this function is called every time the outline changes.
+ * The container is not cleared before calling.
+ */
+export type TOCRenderer = (container: HTMLElement, outline: OutlineItem[], cm: cm_t) => void
+
+export const defaultTOCRenderer: TOCRenderer = (container, outline) => {
+  function makeList(items: OutlineItem[]) {
+    var ul = document.createElement("ul")
+    for (let i = 0; i < items.length; i++) {
+      const item = items[i]
+      const li = document.createElement("li")
+      const a = document.createElement("a")
+      a.className = "hmd-toc-item"
+      a.textContent = item.text
+      a.setAttribute("data-line", String(item.line))
+      a.setAttribute("href", "#" + item.slug)
+      li.appendChild(a)
+      if (item.children.length) li.appendChild(makeList(item.children))
+      ul.appendChild(li)
+    }
+    return ul
+  }
+
+  container.innerHTML = ""
+  container.appendChild(makeList(outline))
+}
+
+/** remove Markdown markups from heading text */
+export function getHeadingText(markdown: string) {
+  var text = markdown
+  text = text.replace(/([*_]{1,2}|~~|`+)(.+?)\1/g, '$2') // em / bold / del / code
+  text = text.replace(/\\(?=.)|\[\^.+?\]|\!\[((?:[^\\\]]+|\\.)+)\](\(.+?\)| ?\[.+?\])?/g, '') // images / escaping slashes / footref
+  text = text.replace(/\[((?:[^\\\]]+|\\.)+)\](\(.+?\)| ?\[.+?\])/g, '$1') // links
+  return text.trim()
+}
+
+/** make a anchor name, like GitHub does. Note that the result might not be unique */
+export function slugify(text: string) {
+  return text.trim().toLowerCase().replace(/[^\w\u00C0-\uFFFF\- ]+/g, '').replace(/ /g, '-')
+}
+
+/********************************************************************************** */
+//#region CodeMirror Extension
+// add methods to all CodeMirror editors
+
+// every codemirror editor will have these member methods:
+export const Extensions = {
+  /**
+   * Get the heading tree of current document
+   *
+   * If Outline addon is not enabled, the document will be scanned every time.
+   */
+  hmdGetOutline(this: cm_t): OutlineItem[] {
+    var outline = getAddon(this)
+    outline.update(outline.enabled ? null : 0)
+    return outline.outline
+  }
+}
+
+export type ExtensionsType = typeof Extensions
+declare global { namespace HyperMD { interface Editor extends ExtensionsType { } } }
+
+for (var name in Extensions) {
+  CodeMirror.defineExtension(name, Extensions[name])
+}
+
+//#endregion
+
+/********************************************************************************** */
+//#region Folder
+/**
+ * Detect if a token is `[TOC]` and fold it into a live TOC
+ *
+ * @see FolderFunc in ./fold.ts
+ */
+export const TOCFolder: FolderFunc = (stream, token) => {
+  if (!token.type || !/\bhmd-toc\b/.test(token.type)) return null
+
+  const cm = stream.cm
+  const from: CodeMirror.Position = { line: stream.lineNo, ch: token.start }
+  const to: CodeMirror.Position = { line: stream.lineNo, ch: token.end }
+
+  const reqAns = stream.requestRange(from, to)
+  if (reqAns !== RequestRangeResult.OK) return null
+
+  return getAddon(cm).foldTOC(from, to)
+}
+//#endregion
+
+registerFolder("toc", TOCFolder, true)
+
+/********************************************************************************** */
+//#region Addon Options
+
+export interface Options extends Addon.AddonOptions {
+  /**
+   * Keep tracking headings or not.
+   * If disabled, `cm.hmdGetOutline()` still works but scans the whole document every time.
+   */
+  enabled: boolean
+
+  /**
+   * A TOCRenderer function, which renders the outline in place of `[TOC]` line.
+   *
+   * To stop rendering TOC, please modify `hmdFold.toc` instead.
+   *
+   * @see TOCRenderer
+   */
+  tocRenderer: TOCRenderer
+}
+
+export const defaultOption: Options = {
+  enabled: false,
+  tocRenderer: defaultTOCRenderer,
+}
+
+export const suggestedOption: Partial<Options> = {
+  enabled: true,  // we recommend lazy users to enable this fantastic addon!
+}
+
+export type OptionValueType = Partial<Options> | boolean;
+
+declare global {
+  namespace HyperMD {
+    interface EditorConfiguration {
+      /**
+       * Options for Outline.
+       *
+       * You may also provide a `false` to disable it; a `true` to enable it with defaultOption (except `enabled`)
+       */
+      hmdOutline?: OptionValueType
+    }
+  }
+}
+
+suggestedEditorConfig.hmdOutline = suggestedOption
+
+CodeMirror.defineOption("hmdOutline", defaultOption, function (cm: cm_t, newVal: OptionValueType) {
+
+  ///// convert newVal's type to `Partial<Options>`, if it is not.
+
+  if (!newVal || typeof newVal === "boolean") {
+    newVal = { enabled: !!newVal }
+  }
+
+  ///// apply config and write new values into cm
+
+  var inst = getAddon(cm)
+  for (var k in defaultOption) {
+    inst[k] = (k in newVal) ? newVal[k] : defaultOption[k]
+  }
+})
+
+//#endregion
+
+/********************************************************************************** */
+//#region Addon Class
+
+export class Outline implements Addon.Addon, Options {
+  enabled: boolean;
+  tocRenderer: TOCRenderer;
+
+  /** heading tree. do NOT modify it */
+  outline: OutlineItem[] = []
+
+  /** all headings, ordered by line number. do NOT modify it */
+  headings: OutlineItem[] = []
+
+  constructor(public cm: cm_t) {
+    // options will be initialized to defaultOption when constructor is finished
+
+    new FlipFlop(
+      /* ON  */() => {
+        cm.on("changes", this._changesHandler)
+        this.update(0)
+      },
+      /* OFF */() => {
+        cm.off("changes", this._changesHandler)
+        this.startUpdate.stop()
+      }
+    ).bind(this, "enabled", true)
+  }
+
+  /** the first line that need re-scanning. `null` if headings are up-to-date */
+  private _dirtyFrom: number = 0
+
+  /** rendered TOCs */
+  private _tocs: { el: HTMLElement, marker: CodeMirror.TextMarker }[] = []
+
+  private _changesHandler = (cm: cm_t, changes: CodeMirror.EditorChangeLinkedList[]) => {
+    var fromLine = this._dirtyFrom
+    for (let i = 0; i < changes.length; i++) {
+      // the previous line might be a setext heading
+      const line = Math.max(0, changes[i].from.line - 1)
+      if (fromLine === null || line < fromLine) fromLine = line
+    }
+    this._dirtyFrom = fromLine
+    this.startUpdate()
+  }
+
+  /** (debounced) re-scan headings, then update TOCs and emit `hmdOutlineChange` event if needed */
+  startUpdate = debounce(() => this.update(), 300)
+
+  /**
+   * Re-scan headings since the first changed line, or the given line.
+   * Then update TOCs and emit `hmdOutlineChange` event if needed
+   *
+   * @param fromLine optional. force re-scanning since this line
+   */
+  update(fromLine?: number) {
+    if (typeof fromLine === 'number' && (this._dirtyFrom === null || fromLine < this._dirtyFrom)) this._dirtyFrom = fromLine
+    if (this._dirtyFrom === null) return
+
+    const cm = this.cm
+    const oldHeadings = this.headings
+    const lastLine = cm.lastLine()
+    const atxRE = /^ {0,3}(#{1,6})(?:[ \t]+(.*?))?(?:[ \t]+#+)?[ \t]*$/
+    const setextRE = /^ {0,3}(?:=+|-+)[ \t]*$/
+
+    fromLine = this._dirtyFrom
+    this._dirtyFrom = null
+    this.startUpdate.stop()
+
+    var headings: OutlineItem[] = []
+    for (let i = 0; i < oldHeadings.length && oldHeadings[i].line < fromLine; i++) headings.push(oldHeadings[i])
+
+    for (let lineNo = fromLine; lineNo <= lastLine; lineNo++) {
+      const text = cm.getLine(lineNo)
+      const line = lineNo
+      let level = 0, title = "", tmp: RegExpMatchArray
+
+      if (tmp = text.match(atxRE)) {
+        // maybe # ATX heading
+        const state = cm.getStateAfter(lineNo, true) as HyperMDState
+        if (state.header === tmp[1].length && !state.setext) {
+          level = state.header
+          title = tmp[2] || ""
+        }
+      } else if (/\S/.test(text) && lineNo < lastLine && setextRE.test(cm.getLine(lineNo + 1))) {
+        // maybe Setext heading, followed by ==== or ----
+        const state = cm.getStateAfter(lineNo, true) as HyperMDState
+        if (state.setext) {
+          level = state.setext
+          title = text
+          lineNo++ // skip the ==== line
+        }
+      }
+
+      if (level) headings.push({ level, text: getHeadingText(title), line, slug: null, children: [] })
+    }
+
+    // make slugs and the tree
+
+    var slugCount: Record<string, number> = {}
+    var outline: OutlineItem[] = []
+    var stack: OutlineItem[] = []
+
+    for (let i = 0; i < headings.length; i++) {
+      const h = headings[i]
+      const item: OutlineItem = { level: h.level, text: h.text, line: h.line, slug: slugify(h.text), children: [] }
+
+      if (item.slug in slugCount) item.slug += "-" + (++slugCount[item.slug])
+      else slugCount[item.slug] = 0
+
+      while (stack.length && stack[stack.length - 1].level >= item.level) stack.pop()
+      if (stack.length) stack[stack.length - 1].children.push(item)
+      else outline.push(item)
+      stack.push(item)
+
+      headings[i] = item
+    }
+
+    var changed = headings.length !== oldHeadings.length
+    for (let i = 0; !changed && i < headings.length; i++) {
+      const a = headings[i], b = oldHeadings[i]
+      changed = a.level !== b.level || a.text !== b.text || a.line !== b.line
+    }
+
+    if (!changed) return
+
+    this.headings = headings
+    this.outline = outline
+    this.updateTOCs()
+
+    CodeMirror.signal(cm, "hmdOutlineChange", cm, outline)
+  }
+
+  /** re-render all TOCs */
+  updateTOCs() {
+    var tocs = this._tocs
+    for (let i = 0; i < tocs.length; i++) {
+      this.tocRenderer(tocs[i].el, this.outline, this.cm)
+      tocs[i].marker.changed()
+    }
+  }
+
+  foldTOC(from: CodeMirror.Position, to: CodeMirror.Position) {
+    var cm = this.cm
+    var el = document.createElement("div")
+    el.className = "hmd-toc-widget"
+
+    if (!this.enabled) this.update(0)
+    this.tocRenderer(el, this.outline, cm)
+
+    var marker = cm.markText(from, to, {
+      replacedWith: el,
+      clearOnEnter: true
+    })
+
+    var toc = { el, marker }
+    this._tocs.push(toc)
+    marker.on("clear", () => {
+      var idx = this._tocs.indexOf(toc)
+      if (idx !== -1) this._tocs.splice(idx, 1)
+    })
+
+    el.addEventListener("click", (ev) => {
+      var target = ev.target as HTMLElement
+      var line = target.getAttribute && target.getAttribute("data-line")
+      ev.preventDefault()
+
+      if (line) {
+        cm.setCursor({ line: ~~line, ch: 0 })
+        cm.focus()
+      } else {
+        breakMark(cm, marker)
+      }
+    }, false)
+
+    return marker
+  }
+}
+
+//#endregion
+
+/** ADDON GETTER (Singleton Pattern): a editor can have only one Outline instance */
+export const getAddon = Addon.Getter("Outline", Outline, defaultOption /** if has options */)
+declare global { namespace HyperMD { interface HelperCollection { Outline?: Outline } } }
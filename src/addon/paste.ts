@@ -3,15 +3,511 @@
 //
 // DESCRIPTION: Convert content to Markdown before pasting
 //
+// Provides *defaultConvertor* which converts HTML without other libraries.
+// You may use others like turndown via PowerPacks
+//
 
 import * as CodeMirror from 'codemirror'
-import { Addon, FlipFlop, suggestedEditorConfig } from '../core'
+import { Addon, FlipFlop, suggestedEditorConfig, repeatStr } from '../core'
 import { cm_t } from '../core/type'
+import { urlRE } from '../mode/hypermd'
 
 /********************************************************************************** */
 
 export type PasteConvertor = (html: string) => string | void
 
+/********************************************************************************** */
+//#region Default Convertor
+
+interface ConvertContext {
+  /** inside a table cell. Everything shall be in one line */
+  table?: boolean
+  strong?: boolean
+  em?: boolean
+  del?: boolean
+}
+
+/** elements that will be removed with their content. Mostly from Word and Google Docs */
+const dropTagRE = /^(?:script|style|meta|link|title|head|template|noscript|xml|o:p|button|select|textarea)$/
+const blockTagRE = /^(?:p|div|section|article|header|footer|main|aside|nav|figure|figcaption|address|center|dl|dt|dd|details|summary|form|fieldset)$/
+const langClassRE = /(?:^|\s)(?:lang(?:uage)?-|highlight-source-|brush:\s*)([\w+#.-]+)/
+
+function getStyle(el: Element) {
+  return el.getAttribute("style") || ""
+}
+
+function escapeMarkdown(text: string) {
+  return text.replace(/[\\`*_\[\]]|<(?=[a-zA-Z\/!])/g, "\\$&")
+}
+
+/** escape characters that break the `(url)` part of a Markdown link */
+function escapeLinkURL(url: string) {
+  return url.replace(/[\s()]/g, c => c === "(" ? "%28" : c === ")" ? "%29" : encodeURIComponent(c))
+}
+
+/** escape characters that start a Markdown block, eg. "# " and "1. " */
+function escapeLineStart(text: string) {
+  return text.replace(/^([ \t]*)(?:(#{1,6}(?=\s|$)|>|[-+](?=\s)|-{2,}[ \t]*$|=+[ \t]*$)|(\d+)([.)])(?=\s))/gm,
+    (s, indent, mark, num, dot) => indent + (num ? num + "\\" + dot : "\\" + mark))
+}
+
+/**
+ * Join two pieces of Markdown. Leading / trailing newlines are merged, up to 2 (a blank line)
+ */
+function join(output: string, text: string) {
+  var trailing = /\n*$/.exec(output)[0].length
+  var leading = /^\n*/.exec(text)[0].length
+  if (!trailing && !leading) {
+    if (/ $/.test(output) && /^ /.test(text)) text = text.slice(1) // collapse spaces, like browsers do
+    return output + text
+  }
+
+  var sep = Math.min(2, Math.max(trailing, leading))
+  output = output.slice(0, output.length - trailing)
+  if (sep > 1) output = output.replace(/[ \t]+$/, "") // keep the "  " of a hard line break
+  text = text.slice(leading).replace(/^[ \t]+/, "")
+
+  return output + repeatStr("\n", sep) + text
+}
+
+function block(text: string) {
+  return text ? "\n\n" + text + "\n\n" : ""
+}
+
+/** wrap inline content with delimiters like `**`. Spaces are moved outside */
+function wrapInline(text: string, delimiter: string) {
+  var mat = /^(\s*)([^]*?)(\s*)$/.exec(text)
+  if (!mat[2] || /\n\n/.test(text)) return text
+  return mat[1] + delimiter + mat[2] + delimiter + mat[3]
+}
+
+/** get text of code. `<br>` and lines in `<div>` (eg. from VSCode) are respected */
+function getCodeText(node: Node): string {
+  if (node.nodeType === Node.TEXT_NODE) return node.nodeValue.replace(/\u00a0/g, " ")
+  if (node.nodeType !== Node.ELEMENT_NODE) return ""
+
+  const tagName = (node as Element).tagName.toLowerCase()
+  if (tagName === "br") return "\n"
+
+  var ans = ""
+  for (let child = node.firstChild; child; child = child.nextSibling) ans += getCodeText(child)
+  if ((tagName === "div" || tagName === "p") && node.nextSibling && !/\n$/.test(ans)) ans += "\n"
+  return ans
+}
+
+function makeCodeBlock(code: string, lang: string) {
+  code = code.replace(/\n$/, "")
+  var fence = "```"
+  var backticks = code.match(/^`{3,}/gm)
+  if (backticks) fence = repeatStr("`", Math.max.apply(null, backticks.map(x => x.length)) + 1)
+  return block(fence + (lang || "") + "\n" + code + "\n" + fence)
+}
+
+function makeInlineCode(code: string) {
+  var backticks = code.match(/`+/g)
+  var fence = backticks ? repeatStr("`", Math.max.apply(null, backticks.map(x => x.length)) + 1) : "`"
+  if (/^`|`$/.test(code)) code = " " + code + " "
+  return fence + code + fence
+}
+
+function convertChildren(node: Node, ctx: ConvertContext): string {
+  var ans = ""
+  var child = node.firstChild
+  while (child) {
+    if (child.nodeType === Node.ELEMENT_NODE && /mso-list:\s*l\d/i.test(getStyle(child as Element))) {
+      // list items from Word, which are just paragraphs. Make a tight list
+      let items: string[] = []
+      let indents = [""] // indentation of each level
+      while (child && (child.nodeType !== Node.ELEMENT_NODE || /mso-list:\s*l\d/i.test(getStyle(child as Element)))) {
+        if (child.nodeType === Node.ELEMENT_NODE) {
+          const item = convertWordListItem(child as Element, ctx)
+          const level = Math.min(item.level, indents.length) - 1
+          const line = indents[level] + item.marker + " " + item.content
+
+          indents.length = level + 1
+          indents.push(repeatStr(" ", indents[level].length + item.marker.length + 1))
+          items.push(line)
+        }
+        child = child.nextSibling
+      }
+      ans = join(ans, block(items.join("\n")))
+      continue
+    }
+
+    ans = join(ans, convertNode(child, ctx))
+    child = child.nextSibling
+  }
+  return ans
+}
+
+function convertWordListItem(el: Element, ctx: ConvertContext): { level: number, marker: string, content: string } {
+  var level = /level(\d+)/i.exec(getStyle(el))
+  var bullet = ""
+  var spans = el.querySelectorAll("span")
+  for (let i = 0; i < spans.length; i++) {
+    if (/mso-list:\s*ignore/i.test(getStyle(spans[i]))) { bullet = spans[i].textContent.trim(); break }
+  }
+
+  // "1." "a)" "iv." are ordered, others like "o" and "§" are bullets
+  var marker = /^\d+[.)]$/.test(bullet) ? bullet.replace(/\)$/, ".") : /^\w+[.)]$/.test(bullet) ? "1." : "-"
+
+  var content = convertChildren(el, ctx).trim().replace(/\s*\n\s*/g, " ")
+  return { level: level ? ~~level[1] : 1, marker, content }
+}
+
+function convertList(el: Element, ctx: ConvertContext): string {
+  const isOrdered = el.tagName.toLowerCase() === "ol"
+  const start = parseInt(el.getAttribute("start"), 10)
+  var index = isNaN(start) ? 1 : start
+  var items: string[] = []
+
+  for (let child = el.firstChild; child; child = child.nextSibling) {
+    if (child.nodeType !== Node.ELEMENT_NODE) continue
+    const childEl = child as Element
+    const tagName = childEl.tagName.toLowerCase()
+
+    if (tagName !== "li") {
+      // nested lists directly in <ul>, which is invalid but common. attach to the previous item
+      const content = convertNode(childEl, ctx).replace(/^\n+|\n+$/g, "")
+      if (!content) continue
+      if (!items.length) items.push(content)
+      else items[items.length - 1] += "\n" + content.replace(/^(?=.)/gm, repeatStr(" ", isOrdered ? 3 : 2))
+      continue
+    }
+
+    const marker = isOrdered ? (index++) + ". " : "- "
+    var content = convertChildren(childEl, ctx).replace(/^\s+|\s+$/g, "")
+
+    // tight list item, unless it has multiple paragraphs
+    var blockCount = 0
+    for (let i = 0; i < childEl.children.length; i++) {
+      if (/^(?:p|div|pre|blockquote|table)$/i.test(childEl.children[i].tagName)) blockCount++
+    }
+    if (blockCount <= 1) content = content.replace(/\n{2,}/g, "\n")
+
+    items.push(marker + content.replace(/\n(?=.)/g, "\n" + repeatStr(" ", marker.length)))
+  }
+
+  return block(items.join("\n"))
+}
+
+function convertTable(el: HTMLTableElement, ctx: ConvertContext): string {
+  var rows: string[][] = []
+  var aligns: string[] = []
+
+  for (let i = 0; i < el.rows.length; i++) {
+    const cells = el.rows[i].cells
+    const row: string[] = []
+    for (let j = 0; j < cells.length; j++) {
+      const cell = cells[j]
+      const text = convertChildren(cell, { ...ctx, table: true }).replace(/\s*\n\s*/g, " ").trim().replace(/\|/g, "\\|")
+      row.push(text)
+
+      if (i === 0) {
+        const align = (cell.getAttribute("align") || (/text-align:\s*(\w+)/i.exec(getStyle(cell)) || [])[1] || "").toLowerCase()
+        aligns.push(align)
+      }
+
+      for (let span = cell.colSpan; span > 1; span--) { row.push(""); if (i === 0) aligns.push("") }
+    }
+    rows.push(row)
+  }
+
+  if (!rows.length) return ""
+
+  var colCount = Math.max.apply(null, rows.map(row => row.length))
+  var delimiter: string[] = []
+  for (let j = 0; j < colCount; j++) {
+    const align = aligns[j]
+    delimiter.push(align === "center" ? ":---:" : align === "right" ? "---:" : align === "left" ? ":---" : "---")
+  }
+
+  var lines = rows.map(row => {
+    while (row.length < colCount) row.push("")
+    return "| " + row.join(" | ") + " |"
+  })
+  lines.splice(1, 0, "| " + delimiter.join(" | ") + " |")
+
+  return block(lines.join("\n"))
+}
+
+function convertNode(node: Node, ctx: ConvertContext): string {
+  if (node.nodeType === Node.TEXT_NODE) return escapeMarkdown(node.nodeValue.replace(/\s+/g, " "))
+  if (node.nodeType !== Node.ELEMENT_NODE) return ""
+
+  const el = node as HTMLElement
+  const tagName = el.tagName.toLowerCase()
+  const style = getStyle(el)
+
+  if (dropTagRE.test(tagName) || /display:\s*none|mso-list:\s*ignore/i.test(style)) return ""
+
+  switch (tagName) {
+    case "h1": case "h2": case "h3": case "h4": case "h5": case "h6": {
+      const content = convertChildren(el, ctx).replace(/\s*\n\s*/g, " ").trim()
+      if (ctx.table) return content
+      return content ? block(repeatStr("#", ~~tagName.charAt(1)) + " " + content) : ""
+    }
+
+    case "br":
+      if (/Apple-interchange-newline/.test(el.className)) return ""
+      return ctx.table ? "<br>" : "  \n"
+
+    case "hr":
+      return ctx.table ? "" : block("---")
+
+    case "strong": case "b": {
+      // Google Docs wraps everything in <b style="font-weight:normal">
+      if (/font-weight:\s*(?:normal|[1-4]00)\b/i.test(style)) return convertChildren(el, ctx)
+
+      const content = convertChildren(el, { ...ctx, strong: true })
+      return ctx.strong ? content : wrapInline(content, "**")
+    }
+
+    case "em": case "i": case "cite": case "dfn": {
+      const content = convertChildren(el, { ...ctx, em: true })
+      return ctx.em ? content : wrapInline(content, "*")
+    }
+
+    case "del": case "s": case "strike": {
+      const content = convertChildren(el, { ...ctx, del: true })
+      return ctx.del ? content : wrapInline(content, "~~")
+    }
+
+    case "code": case "kbd": case "samp": case "tt": {
+      const code = el.textContent.replace(/\u00a0/g, " ")
+      return code ? makeInlineCode(ctx.table ? code.replace(/\s*\n\s*/g, " ") : code) : ""
+    }
+
+    case "pre": {
+      const code = getCodeText(el)
+      if (ctx.table) return makeInlineCode(code.replace(/\s*\n\s*/g, " "))
+
+      const codeEl = el.querySelector("code")
+      const parent = el.parentElement
+      const lang = langClassRE.exec(el.className) || (codeEl && langClassRE.exec(codeEl.className)) || (parent && langClassRE.exec(parent.className))
+      return makeCodeBlock(code, lang && lang[1].toLowerCase())
+    }
+
+    case "a": {
+      const content = convertChildren(el, ctx)
+      const href = el.getAttribute("href")
+      if (!href || /^javascript:/i.test(href) || !content.trim() || /\n\n/.test(content)) return content
+
+      const title = el.getAttribute("title")
+      const mat = /^(\s*)([^]*?)(\s*)$/.exec(content)
+      return mat[1] + "[" + mat[2] + "](" + escapeLinkURL(href) + (title ? ' "' + title.replace(/"/g, '\\"') + '"' : "") + ")" + mat[3]
+    }
+
+    case "img": {
+      const src = el.getAttribute("src")
+      if (!src) return ""
+
+      const alt = (el.getAttribute("alt") || "").replace(/[\[\]\\]/g, "\\$&")
+      const title = el.getAttribute("title")
+      return "![" + alt + "](" + src.replace(/[\s()]/g, encodeURIComponent) + (title ? ' "' + title.replace(/"/g, '\\"') + '"' : "") + ")"
+    }
+
+    case "input":
+      if ((el as HTMLInputElement).type !== "checkbox") return ""
+      return (el.hasAttribute("checked") ? "[x]" : "[ ]") + " "
+
+    case "ul": case "ol":
+      return ctx.table ? convertChildren(el, ctx) : convertList(el, ctx)
+
+    case "li":
+      return ctx.table ? convertChildren(el, ctx) + " " : block("- " + convertChildren(el, ctx).trim())
+
+    case "table":
+      return ctx.table ? convertChildren(el, ctx) : convertTable(el as HTMLTableElement, ctx)
+
+    case "td": case "th":
+      return convertChildren(el, ctx) + " "
+
+    case "blockquote": {
+      const content = convertChildren(el, ctx).replace(/^\s+|\s+$/g, "")
+      if (ctx.table) return content
+      return block(content.replace(/^/gm, "> ").replace(/^> $/gm, ">"))
+    }
+  }
+
+  var content = convertChildren(el, ctx)
+
+  // code from VSCode, which is <div style="white-space: pre"> without <pre>
+  if (tagName === "div" && /white-space:\s*pre/i.test(style) && /monospace|consolas|courier|menlo/i.test(style)) {
+    return makeCodeBlock(getCodeText(el), null)
+  }
+
+  // formatting from Google Docs
+  if (tagName === "span") {
+    if (/font-weight:\s*(?:bold|[6-9]00)\b/i.test(style) && !ctx.strong) content = wrapInline(content, "**")
+    if (/font-style:\s*italic/i.test(style) && !ctx.em) content = wrapInline(content, "*")
+    if (/text-decoration:[^;]*line-through/i.test(style) && !ctx.del) content = wrapInline(content, "~~")
+  }
+
+  if (blockTagRE.test(tagName) && !ctx.table) {
+    content = content.replace(/^\s+|\s+$/g, "")
+    if (!/\n\n/.test(content)) content = escapeLineStart(content) // contains no block
+    return block(content)
+  }
+
+  return content
+}
+
+/**
+ * The default PasteConvertor, which converts HTML to Markdown without other libraries.
+ *
+ * Supports headings, lists, tables, code blocks (with language), links, images and so on.
+ * Useless stuff from Word and Google Docs are removed.
+ *
+ * @returns `null` if the HTML is just plain text, so that it will be pasted as-is.
+ */
+export const defaultConvertor: PasteConvertor = (html) => {
+  // maybe you don't need to convert, if there is no img/link/header...
+  if (!/<(?:hr|img|h\d|strong|em|del|s|strike|table|a|b|i|ul|ol|pre|code|blockquote)(?:\s[^>]*)?\/?>/i.test(html)) return null
+
+  var doc = new DOMParser().parseFromString(html, "text/html")
+  var ans = convertChildren(doc.body, {})
+
+  return ans.replace(/^\n+|\s+$/g, "") || null
+}
+
+//#endregion
+
+/********************************************************************************** */
+//#region Tabular Text
+
+/**
+ * Parse tab-separated or comma-separated text, like what spreadsheets put into clipboard.
+ * Quoted fields like `"a, ""b"""` are supported.
+ *
+ * Indented or code-like text is never treated as a table,
+ * nor rows with empty leading / trailing cells.
+ *
+ * @param separator "\t" or ","
+ * @returns rows of cells. `null` if it's not a table (at least 2 rows and 2 columns, and every row has same column count)
+ */
+export function parseTabularText(text: string, separator: string): string[][] {
+  text = text.replace(/\r\n?/g, "\n").replace(/\n$/, "")
+  if (isCodeLike(text)) return null
+
+  var rows: string[][] = []
+  var row: string[] = []
+  var i = 0, len = text.length
+
+  while (i <= len) {
+    let cell = ""
+    if (text.charAt(i) === '"') {
+      // quoted field, which may contain separators, newlines and ""
+      for (i++; i < len; i++) {
+        const ch = text.charAt(i)
+        if (ch === '"') {
+          if (text.charAt(i + 1) !== '"') { i++; break }
+          i++
+        }
+        cell += ch
+      }
+    }
+    while (i < len && text.charAt(i) !== separator && text.charAt(i) !== "\n") cell += text.charAt(i++)
+
+    row.push(cell)
+    if (text.charAt(i++) !== separator) { rows.push(row); row = [] } // end of line
+  }
+
+  const colCount = rows[0].length
+  if (rows.length < 2 || colCount < 2) return null
+  for (let i = 0; i < rows.length; i++) {
+    const row = rows[i]
+    if (row.length !== colCount) return null
+    if (!/\S/.test(row[0]) || !/\S/.test(row[colCount - 1])) return null // eg. tab-indented lines
+    for (let j = 0; j < colCount; j++) if (!isBalanced(row[j])) return null // eg. `foo(a, b)`
+  }
+
+  return rows
+}
+
+/** check if lines are indented, or look like source code (ending with `;`, `{` or `}`) */
+function isCodeLike(text: string) {
+  return /^[ \t]/m.test(text) || /[;{}][ \t]*$/m.test(text)
+}
+
+/** check if brackets in a cell are paired */
+function isBalanced(cell: string) {
+  var stack: string[] = []
+  const pairs = { ")": "(", "]": "[", "}": "{" }
+  for (let i = 0; i < cell.length; i++) {
+    const ch = cell.charAt(i)
+    if (ch === "(" || ch === "[" || ch === "{") stack.push(ch)
+    else if (ch in pairs && stack.pop() !== pairs[ch]) return false
+  }
+  return stack.length === 0
+}
+
+/**
+ * Make a GFM table, whose first row is the header.
+ */
+export function makeMarkdownTable(rows: string[][]): string {
+  var lines = rows.map(row => "| " + row.map(cell => cell.trim().replace(/\|/g, "\\|").replace(/\n/g, "<br>")).join(" | ") + " |")
+  lines.splice(1, 0, "| " + rows[0].map(() => "---").join(" | ") + " |")
+  return lines.join("\n")
+}
+
+//#endregion
+
+/********************************************************************************** */
+//#region Paste Rules
+
+/**
+ * A PasteRule handles pasted plain text, before HTML is converted.
+ *
+ * For each selection, rules are tried one by one, until one returns the text to insert.
+ *
+ * @param text the pasted plain text
+ * @param selected the selected text, which will be replaced. Could be empty
+ * @returns the text to insert, or `null` to let other rules try
+ */
+export type PasteRule = (text: string, selected: string, cm: cm_t) => string | void
+
+/** check if the text is just a URL (by the mode's `urlRE`). Returns the URL, or null */
+export function getPastedURL(text: string): string {
+  text = text.trim()
+  var mat = urlRE.exec(text)
+  if (!mat || mat[0].length !== text.length) return null
+  if (/^www\d{0,3}\./i.test(text)) text = "http://" + text
+  return text
+}
+
+/** Paste a URL while text is selected, makes `[selected](url)` */
+export const LinkSelectionRule: PasteRule = (text, selected) => {
+  if (!selected || /\n/.test(selected) || getPastedURL(selected)) return null
+  var url = getPastedURL(text)
+  if (!url) return null
+  return "[" + selected.replace(/[\\\[\]]/g, "\\$&") + "](" + escapeLinkURL(url) + ")"
+}
+
+/** Paste a image URL, makes `![](url)` */
+export const ImageURLRule: PasteRule = (text, selected) => {
+  if (selected) return null
+  var url = getPastedURL(text)
+  if (!url || !/\.(?:png|jpe?g|gif|webp|svg|bmp|ico|avif)(?:[?#]\S*)?$/i.test(url)) return null
+  return "![](" + escapeLinkURL(url) + ")"
+}
+
+/** Paste a YouTube URL, makes a thumbnail which links to the video. Not enabled by default. */
+export const YouTubeRule: PasteRule = (text, selected) => {
+  if (selected) return null
+  var url = getPastedURL(text)
+  var mat = url && /^https?:\/\/(?:www\.|m\.)?(?:youtube\.com\/(?:watch\?(?:\S*&)?v=|embed\/|shorts\/)|youtu\.be\/)([\w-]{11})/i.exec(url)
+  if (!mat) return null
+  return "[![](https://img.youtube.com/vi/" + mat[1] + "/0.jpg)](" + escapeLinkURL(url) + ")"
+}
+
+export const defaultRules: PasteRule[] = [
+  LinkSelectionRule,
+  ImageURLRule,
+]
+
+//#endregion
+
 /********************************************************************************** */
 //#region Addon Options
 
@@ -19,13 +515,36 @@ export interface Options extends Addon.AddonOptions {
   /** Enable Paste feature or not. */
   enabled: boolean
 
-  /** a function which accepts HTML, returning markdown text. */
+  /**
+   * a function which accepts HTML, returning markdown text.
+   *
+   * @see defaultConvertor
+   */
   convertor: PasteConvertor
+
+  /**
+   * Convert tab-separated text (eg. copied from spreadsheets) into a table.
+   * Comma-separated text is converted too, if there is no HTML in the clipboard.
+   * If the clipboard has a HTML `<table>`, the `convertor` handles it instead.
+   *
+   * Note: press Shift while pasting (eg. Ctrl+Shift+V) to paste raw text. This also works for `rules`
+   */
+  table: boolean
+
+  /**
+   * PasteRules for plain text, eg. URLs. To add your rules, use `[...defaultRules, yourRule]`
+   *
+   * @see PasteRule
+   * @see defaultRules
+   */
+  rules: PasteRule[]
 }
 
 export const defaultOption: Options = {
   enabled: false,
-  convertor: null,
+  convertor: defaultConvertor,
+  table: true,
+  rules: defaultRules,
 }
 
 export const suggestedOption: Partial<Options> = {
@@ -77,20 +596,95 @@ CodeMirror.defineOption("hmdPaste", defaultOption, function (cm: cm_t, newVal: O
 export class Paste implements Addon.Addon, Options /* if needed */ {
   enabled: boolean;
   convertor: PasteConvertor;
+  table: boolean;
+  rules: PasteRule[];
 
   constructor(public cm: cm_t) {
     new FlipFlop(
-      /* ON  */() => { cm.on('paste', this.pasteHandler) },
-      /* OFF */() => { cm.off('paste', this.pasteHandler) }
+      /* ON  */() => {
+        cm.on('paste', this.pasteHandler)
+        cm.on('keydown', this.keyHandler)
+        cm.on('keyup', this.keyHandler)
+      },
+      /* OFF */() => {
+        cm.off('paste', this.pasteHandler)
+        cm.off('keydown', this.keyHandler)
+        cm.off('keyup', this.keyHandler)
+      }
     ).bind(this, "enabled", true)
   }
 
+  /** user is holding Shift, and wants to paste raw text */
+  private _shiftKey = false
+
+  private keyHandler = (cm: cm_t, ev: KeyboardEvent) => {
+    this._shiftKey = ev.shiftKey
+  }
+
+  /** convert tabular text to a table, which starts and ends on its own lines */
+  private convertTabularText(text: string, allowCSV: boolean): string {
+    var rows = parseTabularText(text, "\t") || (allowCSV && parseTabularText(text, ","))
+    if (!rows) return null
+
+    var cm = this.cm
+    var cursor = cm.getCursor("from"), cursorEnd = cm.getCursor("to")
+    var result = makeMarkdownTable(rows)
+
+    if (/\S/.test(cm.getLine(cursor.line).slice(0, cursor.ch))) result = "\n\n" + result
+    if (/\S/.test(cm.getLine(cursorEnd.line).slice(cursorEnd.ch))) result += "\n\n"
+
+    return result
+  }
+
+  /**
+   * Apply PasteRules to each selection
+   *
+   * @returns texts to insert, for each selection. `null` if no rule works
+   */
+  private applyRules(text: string): string[] {
+    var rules = this.rules
+    if (!rules || !rules.length) return null
+
+    var cm = this.cm
+    var selections = cm.getSelections()
+    var ruleWorks = false
+
+    var ans = selections.map(selected => {
+      for (let i = 0; i < rules.length; i++) {
+        const result = rules[i](text, selected, cm)
+        if (typeof result === "string") { ruleWorks = true; return result }
+      }
+      return text
+    })
+
+    return ruleWorks ? ans : null
+  }
+
   private pasteHandler = (cm: cm_t, ev: ClipboardEvent) => {
     var cd: DataTransfer = ev.clipboardData || window['clipboardData']
     var convertor = this.convertor
 
-    if (!convertor || !cd || cd.types.indexOf('text/html') == -1) return
-    var result = convertor(cd.getData('text/html'))
+    if (!cd || this._shiftKey) return
+
+    var hasHTML = cd.types.indexOf('text/html') != -1
+    var hasText = cd.types.indexOf('text/plain') != -1
+    var result: string | void = null
+
+    if (hasText) {
+      const replacements = this.applyRules(cd.getData('text/plain'))
+      if (replacements) {
+        cm.operation(() => cm.replaceSelections(replacements))
+        ev.preventDefault()
+        return
+      }
+    }
+
+    var html = hasHTML ? cd.getData('text/html') : ""
+
+    // HTML tables are converted by the convertor, which knows the structure better
+    const isHTMLTable = !!convertor && /<table[\s>]/i.test(html)
+    if (this.table && hasText && !isHTMLTable) result = this.convertTabularText(cd.getData('text/plain'), !hasHTML)
+    if (!result && convertor && hasHTML) result = convertor(html)
     if (!result) return
 
     cm.operation(cm.replaceSelection.bind(cm, result))
@@ -5,7 +5,7 @@
 //
 
 import * as CodeMirror from 'codemirror'
-import { Addon, debounce, suggestedEditorConfig } from '../core'
+import { Addon, suggestedEditorConfig } from '../core'
 import { cm_t } from '../core/type'
 
 
@@ -36,6 +36,46 @@ export function splitLink(content: string) {
   return { url, title }
 }
 
+/**
+ * Find the wikilink `[[Page Name|alias]]` that covers the given column
+ *
+ * @param lineText text of the line
+ * @param ch column inside the wikilink
+ * @returns page name, alias and the range of the whole wikilink. `null` if not found
+ */
+export function findWikilink(lineText: string, ch: number) {
+  var wikilinkRE = /\[\[([^\[\]\|]+)(?:\|([^\[\]]+))?\]\]/g
+  var mat: RegExpExecArray
+  while (mat = wikilinkRE.exec(lineText)) {
+    var from = mat.index, to = from + mat[0].length
+    if (from > ch) break
+    if (to >= ch) return { page: mat[1].trim(), alias: (mat[2] || "").trim(), from, to }
+  }
+
+  return null
+}
+
+/**
+ * Resolve a URL with custom scheme into a real URL, eg. `hmd-file://abc` to a blob URL
+ *
+ * @returns the real URL. `null` if not available now
+ */
+export type URLResolver = (url: string, cm: cm_t) => string
+
+export var urlResolvers: Record<string, URLResolver> = {}
+
+/**
+ * Make `hmdResolveURL` handle URLs with a custom scheme
+ *
+ * @param scheme without ":", case-insensive. eg. "hmd-file"
+ * @param force if a resolver with same scheme is already exists, overwrite it. (dangerous)
+ */
+export function registerURLResolver(scheme: string, resolver: URLResolver, force?: boolean) {
+  scheme = scheme.toLowerCase()
+  if (scheme in urlResolvers && !force) throw new Error(`URLResolver for ${scheme} already registered`)
+  urlResolvers[scheme] = resolver
+}
+
 /********************************************************************************** */
 //#region CodeMirror Extension
 // add methods to all CodeMirror editors
@@ -142,7 +182,8 @@ export class ReadLink implements Addon.Addon, Options {
   constructor(
     public cm: cm_t
   ) {
-    cm.on("changes", debounce(() => this.rescan(), 500))
+    cm.on("changes", this._changesHandler)
+    cm.on("swapDoc", () => this.rescan())
     this.rescan()
   }
 
@@ -171,17 +212,82 @@ export class ReadLink implements Addon.Addon, Options {
 
   /**
    * Scan content and rebuild the cache
+   *
+   * Note: the cache is updated incrementally while editing. Usually you don't need this.
    */
   rescan() {
-    const cm = this.cm
-    var cache: CacheDB = (this.cache = {})
-    cm.eachLine((line) => {
+    this.cache = {}
+    this._readLines(this.cm.firstLine(), this.cm.lastLine())
+  }
+
+  /**
+   * Update the cache incrementally: move definitions after changed lines, and only re-read changed lines
+   */
+  private _changesHandler = (cm: cm_t, changes: CodeMirror.EditorChangeLinkedList[]) => {
+    // changed lines, in the current document.
+    // every change is based on the previous one, so the ranges shall be moved or merged
+    var dirty: { from: number, to: number }[] = []
+
+    for (let i = 0; i < changes.length; i++) {
+      const { from, to, text } = changes[i]
+      const oldTo = to.line, newTo = from.line + text.length - 1
+      const delta = newTo - oldTo
+
+      this._removeLines(from.line, oldTo, delta)
+
+      const range = { from: from.line, to: newTo }
+      dirty = dirty.filter(it => {
+        if (it.to < from.line) return true
+        if (it.from > oldTo) { it.from += delta; it.to += delta; return true }
+
+        // overlapped
+        range.from = Math.min(range.from, it.from)
+        range.to = Math.max(range.to, it.to > oldTo ? (it.to + delta) : newTo)
+        return false
+      })
+      dirty.push(range)
+    }
+
+    const lastLine = cm.lastLine()
+    for (let i = 0; i < dirty.length; i++) this._readLines(dirty[i].from, Math.min(dirty[i].to, lastLine))
+  }
+
+  /**
+   * Forget definitions in lines `from` ~ `to`, and move definitions after them by `delta` lines
+   */
+  private _removeLines(from: number, to: number, delta: number) {
+    const cache = this.cache
+    for (const key in cache) {
+      const defs = cache[key]
+      let newDefs: Link[] = []
+      for (let i = 0; i < defs.length; i++) {
+        const def = defs[i]
+        if (def.line < from) newDefs.push(def)
+        else if (def.line > to) { def.line += delta; newDefs.push(def) }
+      }
+
+      if (!newDefs.length) delete cache[key]
+      else if (newDefs.length !== defs.length) cache[key] = newDefs
+    }
+  }
+
+  /**
+   * Read definitions in lines `from` ~ `to`, and put them into the cache
+   */
+  private _readLines(from: number, to: number) {
+    const cache = this.cache
+    this.cm.eachLine(from, to + 1, (line) => {
       var txt = line.text, mat = /^(?:>\s+)*>?\s{0,3}\[([^\]]+)\]:\s*(.+)$/.exec(txt)
       if (mat) {
         var key = mat[1].trim().toLowerCase(), content = mat[2]
-        if (!cache[key]) cache[key] = []
-        cache[key].push({
-          line: line.lineNo(),
+        var lineNo = line.lineNo()
+        var defs = cache[key] || (cache[key] = [])
+
+        // keep definitions ordered by line number
+        var i = defs.length
+        while (i > 0 && defs[i - 1].line > lineNo) i--
+        defs.splice(i, 0, {
+          line: lineNo,
           content: content,
         })
       }
@@ -198,6 +304,7 @@ export class ReadLink implements Addon.Addon, Options {
    *     resolve("../world.png", "http://laobubu.net/xxx/foo/") // => "http://laobubu.net/xxx/world.png"
    *     resolve("../world.png", "http://laobubu.net/xxx/foo") // => "http://laobubu.net/xxx/world.png"
    *     resolve("/world.png", "http://laobubu.net/xxx/foo/") // => "http://laobubu.net/world.png"
+   *     resolve("hmd-file://abc") // => (depends on registered URLResolver, see registerURLResolver)
    */
   resolve(uri: string, baseURI?: string) {
     const emailRE = /^(([^<>()[\]\\.,;:\s@\"]+(\.[^<>()[\]\\.,;:\s@\"]+)*)|(\".+\"))@((\[[0-9]{1,3}\.[0-9]{1,3}\.[0-9]{1,3}\.[0-9]{1,3}\])|(([a-zA-Z\-0-9]+\.)+[a-zA-Z]{2,}))$/
@@ -209,6 +316,11 @@ export class ReadLink implements Addon.Addon, Options {
     if (emailRE.test(uri)) return "mailto:" + uri
 
     var tmp: RegExpMatchArray
+
+    // custom scheme, see registerURLResolver
+    if ((tmp = uri.match(/^([a-z][\w+.-]*):/i)) && (tmp[1].toLowerCase() in urlResolvers)) {
+      return urlResolvers[tmp[1].toLowerCase()](uri, this.cm)
+    }
     var host = ""
 
     baseURI = baseURI || this.baseURI
@@ -0,0 +1,285 @@
+// HyperMD, copyright (c) by laobubu
+// Distributed under an MIT license: http://laobubu.net/HyperMD/LICENSE
+//
+// DESCRIPTION: Convert links between inline style `[text](url)` and reference style `[text][id]`
+//
+// Commands:
+//
+// - `hmdConvertLinkToReference` / `hmdConvertLinkToInline` -- convert the link under the cursor
+// - `hmdConvertAllLinksToReference` / `hmdConvertAllLinksToInline` -- convert all links in the document
+//
+// Definitions like `[id]: url "title"` are appended to the end of document. Identical URLs share one definition.
+// When converting to inline style, definitions that are no longer referred are removed.
+//
+
+import * as CodeMirror from 'codemirror'
+import { Position } from 'codemirror'
+import { cm_t } from '../core/type'
+import { HyperMDState, LinkType } from '../mode/hypermd'
+import { splitLink, getAddon as getReadLinkAddon } from './read-link'
+import { appendDefinitions } from './footnote'
+
+/********************************************************************************** */
+
+export interface LinkInfo {
+  /** the whole link, including the "!" of images */
+  from: Position
+  to: Position
+
+  isImage: boolean
+
+  /** the link text (or image alt), without brackets */
+  text: string
+
+  /** for inline links, the content inside parentheses, eg. `url "title"`. Otherwise `null` */
+  content: string
+
+  /**
+   * for reference links, the id. Otherwise `null`
+   *
+   * eg. "foo" for `[text][foo]`, `[foo][]` and `[foo]`
+   */
+  ref: string
+}
+
+const bracketStyleRE = /(?:^|\s)formatting-(?:link|image)(?:\s|$)/
+const hrefStyleRE = /(?:^|\s)formatting-link-string(?:\s|$)/
+
+/**
+ * Find links and images on a line, with the help of tokens.
+ *
+ * Footnotes `[^1]` and definitions `[foo]: url` are not included.
+ * Links that span multiple lines are not supported.
+ */
+export function getLinks(cm: cm_t, line: number): LinkInfo[] {
+  const lineText = cm.getLine(line)
+  if (lineText.indexOf("[") === -1) return []
+
+  const tokens = cm.getLineTokens(line, true)
+  const isBracket = (index: number, char: string, styleRE: RegExp) => {
+    const token = tokens[index]
+    return token && token.string === char && styleRE.test(token.type || "")
+  }
+
+  var links: LinkInfo[] = []
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i]
+    if (!isBracket(i, "[", bracketStyleRE)) continue
+
+    const linkType = (token.state as HyperMDState).hmdLinkType // NONE for images
+    if (linkType === LinkType.FOOTREF || linkType === LinkType.FOOTNOTE || linkType === LinkType.WIKILINK) continue
+
+    const isImage = /(?:^|\s)image(?:\s|$)/.test(token.type)
+    const fromCh = (isImage && i > 0) ? tokens[i - 1].start : token.start // include the "!"
+
+    // find the "]" of text part
+
+    let j = i + 1
+    while (j < tokens.length && !isBracket(j, "]", bracketStyleRE)) j++
+    if (j >= tokens.length) break
+
+    const link: LinkInfo = {
+      from: { line, ch: fromCh },
+      to: { line, ch: tokens[j].end },
+      isImage,
+      text: lineText.slice(token.end, tokens[j].start),
+      content: null,
+      ref: null,
+    }
+
+    // then the (url) or [ref] part
+
+    let k = j + 1
+    if (tokens[k] && tokens[k].string === " " && isBracket(k + 1, "[", hrefStyleRE)) k++ // [text] [ref]
+    if (isBracket(k, "[", hrefStyleRE) && lineText.charAt(tokens[k].end) === "^") k = -1 // [text] [^footref]
+
+    if (isBracket(k, "(", hrefStyleRE) || isBracket(k, "[", hrefStyleRE)) {
+      const closeChar = tokens[k].string === "(" ? ")" : "]"
+      let end = k + 1
+      while (end < tokens.length && !isBracket(end, closeChar, hrefStyleRE)) end++
+      if (end >= tokens.length) break
+
+      const inner = lineText.slice(tokens[k].end, tokens[end].start)
+      if (closeChar === ")") link.content = inner
+      else if ((tokens[k].state as HyperMDState).hmdLinkType === LinkType.FOOTREF2) link.ref = inner // [text][foo]
+      else link.ref = link.text // [foo][]
+
+      link.to.ch = tokens[end].end
+      j = end
+    } else {
+      link.ref = link.text // [foo]
+    }
+
+    links.push(link)
+    i = j
+  }
+
+  return links
+}
+
+/** get the link under the position. returns `null` if not found */
+export function getLinkAt(cm: cm_t, pos: Position): LinkInfo {
+  const links = getLinks(cm, pos.line)
+  for (let i = 0; i < links.length; i++) {
+    if (links[i].from.ch <= pos.ch && links[i].to.ch >= pos.ch) return links[i]
+  }
+  return null
+}
+
+/** make the key of a URL and its title, so identical URLs can be found */
+function getURLKey(content: string) {
+  const { url, title } = splitLink(content)
+  return url + "\n" + title
+}
+
+/**
+ * Convert inline links to reference links, and append definitions to the end of document.
+ *
+ * If a URL (with the same title) is already defined, the definition is reused.
+ * Otherwise, a new definition is made with the next free number as id.
+ */
+export function convertToReference(cm: cm_t, links: LinkInfo[]) {
+  links = links.filter(link => link.content !== null && !!link.content.trim())
+  if (!links.length) return
+
+  const cache = getReadLinkAddon(cm).cache
+  var idOfURL: Record<string, string> = {}
+  for (const key in cache) {
+    if (key.charAt(0) === "^") continue // footnote
+    const urlKey = getURLKey(cache[key][0].content)
+    if (!(urlKey in idOfURL)) idOfURL[urlKey] = key
+  }
+
+  var nextID = 1
+  var definitions: string[] = []
+  var replacements: string[] = []
+  for (let i = 0; i < links.length; i++) {
+    const link = links[i]
+    const content = link.content.trim()
+    const urlKey = getURLKey(content)
+
+    let id = idOfURL[urlKey]
+    if (!id) {
+      while (String(nextID) in cache) nextID++
+      id = idOfURL[urlKey] = String(nextID++)
+      definitions.push("[" + id + "]: " + content)
+    }
+
+    replacements.push((link.isImage ? "!" : "") + "[" + link.text + "][" + id + "]")
+  }
+
+  cm.operation(() => {
+    // from the end to the beginning, so positions are not affected by previous edits
+    for (let i = links.length - 1; i >= 0; i--) cm.replaceRange(replacements[i], links[i].from, links[i].to)
+    if (definitions.length) appendDefinitions(cm, definitions)
+  })
+}
+
+/**
+ * Convert reference links to inline links.
+ *
+ * Definitions that are no longer referred are removed.
+ * References without definitions are not changed.
+ */
+export function convertToInline(cm: cm_t, links: LinkInfo[]) {
+  const cache = getReadLinkAddon(cm).cache
+  links = links.filter(link => link.ref !== null && (link.ref.trim().toLowerCase() in cache))
+  if (!links.length) return
+
+  var edits: { from: Position, to: Position, text: string }[] = []
+  var convertedKeys: Record<string, boolean> = {}
+  for (let i = 0; i < links.length; i++) {
+    const link = links[i]
+    const key = link.ref.trim().toLowerCase()
+    const content = cache[key][0].content.trim()
+
+    edits.push({ from: link.from, to: link.to, text: (link.isImage ? "!" : "") + "[" + link.text + "](" + content + ")" })
+    convertedKeys[key] = true
+  }
+
+  // remove definitions, if they are not referred by other links
+
+  const isConverted = (link: LinkInfo) => {
+    for (let i = 0; i < links.length; i++) {
+      if (links[i].from.line === link.from.line && links[i].from.ch === link.from.ch) return true
+    }
+    return false
+  }
+
+  cm.eachLine(lineHandle => {
+    if (lineHandle.text.indexOf("[") === -1) return
+    const others = getLinks(cm, lineHandle.lineNo())
+    for (let i = 0; i < others.length; i++) {
+      if (others[i].ref !== null && !isConverted(others[i])) delete convertedKeys[others[i].ref.trim().toLowerCase()]
+    }
+  })
+
+  for (const key in convertedKeys) {
+    const defs = cache[key]
+    for (let i = 0; i < defs.length; i++) {
+      const line = defs[i].line
+      edits.push(line < cm.lastLine()
+        ? { from: { line, ch: 0 }, to: { line: line + 1, ch: 0 }, text: "" }
+        : { from: { line: line - 1, ch: cm.getLine(line - 1).length }, to: { line, ch: cm.getLine(line).length }, text: "" }
+      )
+    }
+  }
+
+  // from the end to the beginning, so positions are not affected by previous edits
+  edits.sort((a, b) => (b.from.line - a.from.line) || (b.from.ch - a.from.ch))
+  cm.operation(() => {
+    const blankLines = countTrailingBlankLines(cm)
+    for (let i = 0; i < edits.length; i++) cm.replaceRange(edits[i].text, edits[i].from, edits[i].to)
+
+    // remove blank lines, which separated removed definitions from the content
+    const lastLine = cm.lastLine(), line = lastLine - (countTrailingBlankLines(cm) - blankLines)
+    if (line < lastLine) cm.replaceRange("", { line, ch: cm.getLine(line).length }, { line: lastLine, ch: cm.getLine(lastLine).length })
+  })
+}
+
+function countTrailingBlankLines(cm: cm_t) {
+  var line = cm.lastLine()
+  while (line > cm.firstLine() && !/\S/.test(cm.getLine(line))) line--
+  return cm.lastLine() - line
+}
+
+/** get all links in the document */
+export function getAllLinks(cm: cm_t): LinkInfo[] {
+  var links: LinkInfo[] = []
+  cm.eachLine(lineHandle => {
+    if (lineHandle.text.indexOf("[") !== -1) links.push.apply(links, getLinks(cm, lineHandle.lineNo()))
+  })
+  return links
+}
+
+/********************************************************************************** */
+//#region Commands
+
+export function convertLinkToReference(cm: cm_t) {
+  const link = getLinkAt(cm, cm.getCursor())
+  if (!link || link.content === null) return CodeMirror.Pass
+  convertToReference(cm, [link])
+}
+
+export function convertLinkToInline(cm: cm_t) {
+  const link = getLinkAt(cm, cm.getCursor())
+  if (!link || link.ref === null) return CodeMirror.Pass
+  convertToInline(cm, [link])
+}
+
+export function convertAllLinksToReference(cm: cm_t) {
+  convertToReference(cm, getAllLinks(cm))
+}
+
+export function convertAllLinksToInline(cm: cm_t) {
+  convertToInline(cm, getAllLinks(cm))
+}
+
+Object.assign(CodeMirror.commands, {
+  hmdConvertLinkToReference: convertLinkToReference,
+  hmdConvertLinkToInline: convertLinkToInline,
+  hmdConvertAllLinksToReference: convertAllLinksToReference,
+  hmdConvertAllLinksToInline: convertAllLinksToInline,
+})
+
+//#endregion
@@ -0,0 +1,320 @@
+// HyperMD, copyright (c) by laobubu
+// Distributed under an MIT license: http://laobubu.net/HyperMD/LICENSE
+//
+// DESCRIPTION: Table editing commands: insert / delete / move rows and columns, change alignment and reformat
+//
+// Every command reformats the whole table, so the pipes always line up.
+// Commands work on the table under the (primary) cursor. Outside tables, they do nothing.
+//
+
+import * as CodeMirror from 'codemirror'
+import { Position } from 'codemirror'
+import { repeatStr } from '../core'
+import { cm_t } from '../core/type'
+import { HyperMDState, TableType } from '../mode/hypermd'
+
+/********************************************************************************** */
+
+/** "left" | "center" | "right" | "default" */
+export type ColumnAlign = string
+
+export interface TableInfo {
+  type: TableType
+  /** the header row */
+  fromLine: number
+  /** the last row */
+  toLine: number
+  /** leading whitespaces of the first line */
+  indent: string
+  /** alignment of each column */
+  aligns: ColumnAlign[]
+  /** text of each cell, trimmed. `rows[0]` is the header; the `|---|---|` row is not included */
+  rows: string[][]
+}
+
+/** the cell where the cursor is. `row` is the index in `TableInfo.rows` */
+export interface CellPosition {
+  row: number
+  col: number
+}
+
+const wideCharRE = /[\u1100-\u115F\u2E80-\uA4CF\uAC00-\uD7A3\uF900-\uFAFF\uFE30-\uFE4F\uFF00-\uFF60\uFFE0-\uFFE6]/g
+
+/** get the width of text in monospace fonts. CJK characters are counted as 2 */
+export function getTextWidth(text: string) {
+  return text.length + (text.match(wideCharRE) || []).length
+}
+
+/**
+ * Get the table which contains the line
+ *
+ * @returns null if not in a table
+ */
+export function getTableInfo(cm: cm_t, lineNo: number): TableInfo {
+  const eolState = cm.getStateAfter(lineNo) as HyperMDState
+  const tableID = eolState.hmdTableID
+  if (!eolState.hmdTable || !tableID) return null
+
+  var fromLine = lineNo, toLine = lineNo
+  const lastLine = cm.lastLine()
+  while (fromLine > cm.firstLine() && (cm.getStateAfter(fromLine - 1) as HyperMDState).hmdTableID === tableID) fromLine--
+  while (toLine < lastLine && (cm.getStateAfter(toLine + 1) as HyperMDState).hmdTableID === tableID) toLine++
+
+  const aligns = (cm.getStateAfter(fromLine) as HyperMDState).hmdTableColumns.slice(0)
+  const rows: string[][] = []
+  for (let i = fromLine; i <= toLine; i++) {
+    if (i === fromLine + 1) continue // the |---|---| row
+    rows.push(splitTableRow(cm, i))
+  }
+
+  // make every row has the same number of cells
+  var colCount = aligns.length
+  for (let i = 0; i < rows.length; i++) colCount = Math.max(colCount, rows[i].length)
+  while (aligns.length < colCount) aligns.push("default")
+  for (let i = 0; i < rows.length; i++) {
+    while (rows[i].length < colCount) rows[i].push("")
+  }
+
+  return {
+    type: eolState.hmdTable,
+    fromLine,
+    toLine,
+    indent: cm.getLine(fromLine).match(/^\s*/)[0],
+    aligns,
+    rows,
+  }
+}
+
+/** get trimmed text of cells, with the help of `hmd-table-sep` tokens */
+function splitTableRow(cm: cm_t, lineNo: number): string[] {
+  const text = cm.getLine(lineNo)
+  const tokens = cm.getLineTokens(lineNo)
+  var cells: string[] = []
+  var start = 0
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i]
+    if (!/\bhmd-table-sep\b/.test(token.type)) continue
+
+    // the leading "|" of a NORMAL table
+    if (/\bhmd-table-sep-dummy\b/.test(token.type) && cells.length === 0 && !/\S/.test(text.slice(start, token.start))) {
+      start = token.end
+      continue
+    }
+
+    cells.push(text.slice(start, token.start))
+    start = token.end
+  }
+
+  var rest = text.slice(start)
+  if (/\S/.test(rest)) cells.push(rest) // the last cell, not followed by "|"
+
+  return cells.map(cell => cell.trim())
+}
+
+/**
+ * Get the cell where the position is
+ *
+ * @returns null if not in a table
+ */
+export function getCellPosition(cm: cm_t, pos: Position, table?: TableInfo): CellPosition {
+  if (!table) table = getTableInfo(cm, pos.line)
+  if (!table || pos.line < table.fromLine || pos.line > table.toLine) return null
+
+  const eolState = cm.getStateAfter(pos.line) as HyperMDState
+  const tableRow = eolState.hmdTableRow
+  const row = tableRow <= 1 ? 0 : (tableRow - 1) // the |---|---| row is treated as the header
+
+  var col = 0
+  if (pos.ch > 0) col = (cm.getTokenAt(pos, true).state as HyperMDState).hmdTableCol
+  col = Math.max(0, Math.min(col, table.aligns.length - 1))
+
+  return { row, col }
+}
+
+/**
+ * Make the text of a table, with aligned pipes
+ *
+ * @returns lines of text, and where each cell's content starts
+ */
+export function formatTable(table: TableInfo): { lines: string[], cellChars: number[][] } {
+  const { rows, aligns, indent } = table
+  const isNormalTable = table.type === TableType.NORMAL
+
+  var widths = aligns.map(() => 3) // a delimiter needs at least 3 chars, eg. ":-:"
+  for (let i = 0; i < rows.length; i++) {
+    for (let j = 0; j < rows[i].length; j++) {
+      widths[j] = Math.max(widths[j], getTextWidth(rows[i][j]))
+    }
+  }
+
+  var lines: string[] = []
+  var cellChars: number[][] = []
+
+  const makeLine = (cells: string[], padder: (text: string, col: number) => [string, number]) => {
+    var line = indent + (isNormalTable ? "| " : "")
+    var chars: number[] = []
+    for (let j = 0; j < cells.length; j++) {
+      if (j > 0) line += " | "
+      const [padded, leftPad] = padder(cells[j], j)
+      chars.push(line.length + leftPad)
+      line += padded
+    }
+    if (isNormalTable) line += " |"
+    else line = line.replace(/\s+$/, "")
+    lines.push(line)
+    return chars
+  }
+
+  const padCell = (text: string, col: number): [string, number] => {
+    const space = widths[col] - getTextWidth(text)
+    const align = aligns[col]
+    const leftPad = align === "right" ? space : align === "center" ? (space >> 1) : 0
+    return [repeatStr(" ", leftPad) + text + repeatStr(" ", space - leftPad), leftPad]
+  }
+
+  const makeDelimiter = (text: string, col: number): [string, number] => {
+    const width = widths[col]
+    const align = aligns[col]
+    var ans = repeatStr("-", width)
+    if (align === "left") ans = ":" + ans.slice(1)
+    else if (align === "right") ans = ans.slice(1) + ":"
+    else if (align === "center") ans = ":" + ans.slice(2) + ":"
+    return [ans, 0]
+  }
+
+  for (let i = 0; i < rows.length; i++) {
+    cellChars.push(makeLine(rows[i], padCell))
+    if (i === 0) makeLine(aligns, makeDelimiter)
+  }
+
+  return { lines, cellChars }
+}
+
+/**
+ * Replace the table in the editor with formatted new content, then put cursor into a cell
+ */
+export function updateTable(cm: cm_t, table: TableInfo, cursor?: CellPosition) {
+  // a SIMPLE table with empty cells on the edges is no longer a table. make it NORMAL
+  if (table.type === TableType.SIMPLE) {
+    const lastCol = table.aligns.length - 1
+    for (let i = 0; i < table.rows.length; i++) {
+      if (!table.rows[i][0] || !table.rows[i][lastCol]) { table.type = TableType.NORMAL; break }
+    }
+  }
+
+  const { lines, cellChars } = formatTable(table)
+  const from: Position = { line: table.fromLine, ch: 0 }
+  const to: Position = { line: table.toLine, ch: cm.getLine(table.toLine).length }
+
+  cm.operation(() => {
+    if (cm.getRange(from, to) !== lines.join("\n")) cm.replaceRange(lines.join("\n"), from, to)
+
+    if (cursor) {
+      const row = Math.max(0, Math.min(cursor.row, table.rows.length - 1))
+      const col = Math.max(0, Math.min(cursor.col, table.aligns.length - 1))
+      const line = table.fromLine + (row === 0 ? 0 : row + 1)
+      cm.setCursor({ line, ch: cellChars[row][col] })
+    }
+  })
+}
+
+/**
+ * Find the table under the cursor, modify it and update the editor.
+ *
+ * @param modifier modify the table, and return new cursor position. Return `null` to cancel.
+ */
+export function editTable(cm: cm_t, modifier: (table: TableInfo, cell: CellPosition) => CellPosition) {
+  const table = getTableInfo(cm, cm.getCursor().line)
+  if (!table) return CodeMirror.Pass
+
+  const cell = getCellPosition(cm, cm.getCursor(), table)
+  const newCell = modifier(table, cell)
+  if (!newCell) return
+
+  updateTable(cm, table, newCell)
+}
+
+/********************************************************************************** */
+//#region Commands
+
+/** move the item at `from` to `to`. */
+function moveItem<T>(arr: T[], from: number, to: number) {
+  arr.splice(to, 0, arr.splice(from, 1)[0])
+}
+
+export function insertRow(cm: cm_t, below: boolean) {
+  return editTable(cm, (table, cell) => {
+    const index = (below || cell.row === 0) ? (cell.row + 1) : cell.row // nothing can be above the header
+    table.rows.splice(index, 0, table.aligns.map(() => ""))
+    return { row: index, col: cell.col }
+  })
+}
+
+export function deleteRow(cm: cm_t) {
+  return editTable(cm, (table, cell) => {
+    if (cell.row === 0) return null // can't delete the header
+    table.rows.splice(cell.row, 1)
+    return { row: cell.row, col: cell.col }
+  })
+}
+
+export function insertColumn(cm: cm_t, right: boolean) {
+  return editTable(cm, (table, cell) => {
+    const index = right ? (cell.col + 1) : cell.col
+    table.aligns.splice(index, 0, "default")
+    for (let i = 0; i < table.rows.length; i++) table.rows[i].splice(index, 0, "")
+    return { row: cell.row, col: index }
+  })
+}
+
+export function deleteColumn(cm: cm_t) {
+  return editTable(cm, (table, cell) => {
+    if (table.aligns.length <= 1) return null
+    table.aligns.splice(cell.col, 1)
+    for (let i = 0; i < table.rows.length; i++) table.rows[i].splice(cell.col, 1)
+    return { row: cell.row, col: cell.col }
+  })
+}
+
+/** @param offset -1 means moving left, 1 means moving right */
+export function moveColumn(cm: cm_t, offset: number) {
+  return editTable(cm, (table, cell) => {
+    const index = cell.col + offset
+    if (index < 0 || index >= table.aligns.length) return null
+    moveItem(table.aligns, cell.col, index)
+    for (let i = 0; i < table.rows.length; i++) moveItem(table.rows[i], cell.col, index)
+    return { row: cell.row, col: index }
+  })
+}
+
+/** @param align if omitted, switch to next style: default -> left -> center -> right -> default */
+export function setColumnAlign(cm: cm_t, align?: ColumnAlign) {
+  return editTable(cm, (table, cell) => {
+    if (!align) {
+      const styles = ["default", "left", "center", "right"]
+      align = styles[(styles.indexOf(table.aligns[cell.col]) + 1) % styles.length]
+    }
+    table.aligns[cell.col] = align
+    return cell
+  })
+}
+
+export function formatCurrentTable(cm: cm_t) {
+  return editTable(cm, (table, cell) => cell)
+}
+
+Object.assign(CodeMirror.commands, {
+  hmdTableInsertRowAbove: (cm: cm_t) => insertRow(cm, false),
+  hmdTableInsertRowBelow: (cm: cm_t) => insertRow(cm, true),
+  hmdTableDeleteRow: deleteRow,
+  hmdTableInsertColumnLeft: (cm: cm_t) => insertColumn(cm, false),
+  hmdTableInsertColumnRight: (cm: cm_t) => insertColumn(cm, true),
+  hmdTableDeleteColumn: deleteColumn,
+  hmdTableMoveColumnLeft: (cm: cm_t) => moveColumn(cm, -1),
+  hmdTableMoveColumnRight: (cm: cm_t) => moveColumn(cm, 1),
+  hmdTableAlignColumn: (cm: cm_t) => setColumnAlign(cm),
+  hmdTableFormat: formatCurrentTable,
+})
+
+//#endregion
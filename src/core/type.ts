@@ -41,6 +41,39 @@ declare module "codemirror" {
   function rmClass(el: HTMLElement, className: string)
   function contains(parent: HTMLElement, child: Node): boolean
 
+  /** Find the column position at a given string index using a given tabsize. */
+  function countColumn(line: string, index: number, tabSize: number): number
+
+  /** Split a string by new line. */
+  function splitLines(text: string): string[]
+
+  /// RUN MODE (addon: runmode)
+
+  /**
+   * Run a CodeMirror mode over `text`, without opening an editor instance.
+   *
+   * `callback` is called for each token; and once with text `"\n"` for each line break.
+   */
+  function runMode(text: string, modeSpec: string | object, callback: (text: string, style: string, lineNo: number, start: number, state: any) => void, options?: { tabSize?: number, state?: any }): void
+
+  /// FOLDING (addon: foldcode)
+
+  type FoldRangeFinder = (cm: cm_t, start: CodeMirror.Position) => { from: CodeMirror.Position, to: CodeMirror.Position }
+  var fold: {
+    auto: FoldRangeFinder
+    combine(...finders: FoldRangeFinder[]): FoldRangeFinder
+    [name: string]: FoldRangeFinder | ((...finders: FoldRangeFinder[]) => FoldRangeFinder)
+  }
+
+  /** the `foldOptions` option, also accepted by `cm.foldCode()` */
+  interface FoldOptions {
+    rangeFinder?: FoldRangeFinder
+    widget?: string | HTMLElement | ((from: CodeMirror.Position, to: CodeMirror.Position) => string | HTMLElement)
+    scanUp?: boolean
+    minFoldSize?: number
+    clearOnEnter?: boolean
+  }
+
   /// MODE AND MIME
 
   function defineMIME(mime: string, mode: string);
@@ -130,6 +163,23 @@ declare module "codemirror" {
     hmdNewlineAndContinue: (cm: cm_t) => any
     hmdShiftTab: (cm: cm_t) => any
     hmdTab: (cm: cm_t) => any
+
+    // addon: fold-structure
+    hmdFoldSection: (cm: cm_t) => any
+    hmdUnfoldAll: (cm: cm_t) => any
+    hmdFoldToLevel: (cm: cm_t, level?: number) => any
+
+    // addon: table-edit
+    hmdTableInsertRowAbove: (cm: cm_t) => any
+    hmdTableInsertRowBelow: (cm: cm_t) => any
+    hmdTableDeleteRow: (cm: cm_t) => any
+    hmdTableInsertColumnLeft: (cm: cm_t) => any
+    hmdTableInsertColumnRight: (cm: cm_t) => any
+    hmdTableDeleteColumn: (cm: cm_t) => any
+    hmdTableMoveColumnLeft: (cm: cm_t) => any
+    hmdTableMoveColumnRight: (cm: cm_t) => any
+    hmdTableAlignColumn: (cm: cm_t) => any
+    hmdTableFormat: (cm: cm_t) => any
   }
 
   function normalizeKeyMap(keymap: KeyMap): object;
@@ -151,6 +201,7 @@ declare module "codemirror" {
     lineOracle: any
 
     lookAhead(lineCount: number): string
+    hideFirstChars<T>(n: number, inner: () => T): T
   }
 
   interface LineWidget {
@@ -172,6 +223,22 @@ declare module "codemirror" {
      */
     getTokenTypeAt(pos: CodeMirror.Position): string
 
+    /**
+     * Returns the mode's parser state, if any, at the end of the given line number.
+     * If no line number is given, the state at the end of the document is returned.
+     *
+     * This can be useful for storing parsing errors in the state, or getting other kinds of contextual information for a line.
+     * `precise` is defined as in getTokenAt().
+     */
+    getStateAfter(line?: number, precise?: boolean): any
+
+    /**
+     * (addon: foldcode) Try to fold the range at the given position. If `force` is omitted, toggle the fold.
+     *
+     * `options` can be a range finder function, or a FoldOptions object
+     */
+    foldCode(pos: CodeMirror.Position | number, options?: CodeMirror.FoldRangeFinder | CodeMirror.FoldOptions, force?: "fold" | "unfold"): void
+
     execCommand(cmd: Command): void
 
     listSelections(): { anchor: CodeMirror.Position; head: CodeMirror.Position; empty(): boolean }[];
@@ -185,6 +252,13 @@ declare module "codemirror" {
     changed(): void
     className: string
 
+    /**
+     * Get the range of the marker. Returns `undefined` if it's cleared.
+     *
+     * For bookmarks (made by `setBookmark`), it's a position. Use `find<CodeMirror.Position>()`
+     */
+    find<T = { from: CodeMirror.Position, to: CodeMirror.Position }>(): T
+
     /**
      * Fired when the cursor enters the marked range.
      * From this event handler, the editor state may be inspected but not modified,
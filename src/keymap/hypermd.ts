@@ -191,7 +191,7 @@ export function shiftTab(cm: cm_t) {
       var line = left.line
       var lineText = cm.getLine(line)
       var chStart = 0, chEnd = 0
-      var rightPipe = tokenSeeker.findPrev(isRealTableSep)
+      var rightPipe = eolState.hmdTableRow !== 1 && tokenSeeker.findPrev(isRealTableSep) // on |---|---| line, jump to the header
 
       if (rightPipe) { // prev cell is in this line
         var leftPipe = tokenSeeker.findPrev(isRealTableSep, rightPipe.i_token - 1)
@@ -307,8 +307,29 @@ export function tab(cm: cm_t) {
 
       tokenSeeker.setPos(left.line, left.ch)
 
-      const nextCellLeft = tokenSeeker.findNext(isRealTableSep, tokenSeeker.i_token)
-      if (!nextCellLeft) { // already last cell
+      /** select the content of the first cell in `lineNo` */
+      const selectFirstCell = (lineNo: number) => {
+        right.line = left.line = lineNo
+        tokenSeeker.setPos(left.line, 0)
+
+        const line = tokenSeeker.line.text
+        const dummySep = isNormalTable && tokenSeeker.findNext(/hmd-table-sep-dummy/, 0)
+        const nextCellRight = tokenSeeker.findNext(/hmd-table-sep/, dummySep ? dummySep.i_token + 1 : 1)
+
+        left.ch = dummySep ? dummySep.token.end : 0
+        right.ch = nextCellRight ? nextCellRight.token.start : line.length
+        if (right.ch > left.ch && line.charAt(left.ch) === " ") left.ch++
+        if (right.ch > left.ch && line.charAt(right.ch - 1) === " ") right.ch--
+        setSelected(right.ch > left.ch ? cm.getRange(left, right) : "")
+      }
+
+      const isDelimiterRow = eolState.hmdTableRow === 1 // the |---|---| line has no cell to select
+      const isBeforeFirstCell = isNormalTable && !isDelimiterRow && /^\s*$/.test(line.slice(0, left.ch)) // cursor is before the leading "|"
+
+      const nextCellLeft = !isDelimiterRow && !isBeforeFirstCell && tokenSeeker.findNext(isRealTableSep, tokenSeeker.i_token)
+      if (isBeforeFirstCell) {
+        selectFirstCell(left.line)
+      } else if (!nextCellLeft) { // already last cell
         const lineSpan = eolState.hmdTableRow === 0 ? 2 : 1 // skip |---|---| line
 
         if ((left.line + lineSpan) > cm.lastLine() || cm.getStateAfter(left.line + lineSpan).hmdTable != eolState.hmdTable) {
@@ -332,18 +353,7 @@ export function tab(cm: cm_t) {
           setSelected("")
         } else {
           // move cursor to next line, first cell
-          right.line = left.line += lineSpan
-          tokenSeeker.setPos(left.line, 0)
-
-          const line = tokenSeeker.line.text
-          const dummySep = isNormalTable && tokenSeeker.findNext(/hmd-table-sep-dummy/, 0)
-          const nextCellRight = tokenSeeker.findNext(/hmd-table-sep/, dummySep ? dummySep.i_token + 1 : 1)
-
-          left.ch = dummySep ? dummySep.token.end : 0
-          right.ch = nextCellRight ? nextCellRight.token.start : line.length
-          if (right.ch > left.ch && line.charAt(left.ch) === " ") left.ch++
-          if (right.ch > left.ch && line.charAt(right.ch - 1) === " ") right.ch--
-          setSelected(right.ch > left.ch ? cm.getRange(left, right) : "")
+          selectFirstCell(left.line + lineSpan)
         }
       } else {
         const nextCellRight = tokenSeeker.findNext(/hmd-table-sep/, nextCellLeft.i_token + 1)
@@ -623,6 +633,18 @@ Object.assign(CodeMirror.commands, {
   hmdTab: tab,
 })
 
+/**
+ * Create a command that folds sections to the given heading level
+ *
+ * Note: requires addon "fold-structure"
+ */
+function foldToLevel(level: number) {
+  return (cm: cm_t) => {
+    if (!CodeMirror.commands.hmdFoldToLevel) return CodeMirror.Pass
+    CodeMirror.commands.hmdFoldToLevel(cm, level)
+  }
+}
+
 const defaultKeyMap = CodeMirror.keyMap["default"]
 export var keyMap: CodeMirror.KeyMap = {
   "Shift-Tab": "hmdShiftTab",
@@ -646,6 +668,19 @@ export var keyMap: CodeMirror.KeyMap = {
     state => "~~"
   ),
 
+  // addon: fold-structure
+  "Ctrl-Q": "hmdFoldSection",
+  "Shift-Ctrl-0": "hmdUnfoldAll",
+  "Shift-Ctrl-1": foldToLevel(1),
+  "Shift-Ctrl-2": foldToLevel(2),
+  "Shift-Ctrl-3": foldToLevel(3),
+  "Shift-Ctrl-4": foldToLevel(4),
+  "Shift-Ctrl-5": foldToLevel(5),
+  "Shift-Ctrl-6": foldToLevel(6),
+
+  // addon: click
+  "Ctrl-Alt-Left": "hmdNavigateBack",
+  "Ctrl-Alt-Right": "hmdNavigateForward",
 
   fallthrough: "default",
 }
@@ -18,7 +18,7 @@ import "./hypermd.css"
 const tokenBreakRE = /[^\\][$|]/
 
 const listRE = /^(?:[*\-+]|^[0-9]+([.)]))\s+/
-const urlRE = /^((?:(?:aaas?|about|acap|adiumxtra|af[ps]|aim|apt|attachment|aw|beshare|bitcoin|bolo|callto|cap|chrome(?:-extension)?|cid|coap|com-eventbrite-attendee|content|crid|cvs|data|dav|dict|dlna-(?:playcontainer|playsingle)|dns|doi|dtn|dvb|ed2k|facetime|feed|file|finger|fish|ftp|geo|gg|git|gizmoproject|go|gopher|gtalk|h323|hcp|https?|iax|icap|icon|im|imap|info|ipn|ipp|irc[6s]?|iris(?:\.beep|\.lwz|\.xpc|\.xpcs)?|itms|jar|javascript|jms|keyparc|lastfm|ldaps?|magnet|mailto|maps|market|message|mid|mms|ms-help|msnim|msrps?|mtqp|mumble|mupdate|mvn|news|nfs|nih?|nntp|notes|oid|opaquelocktoken|palm|paparazzi|platform|pop|pres|proxy|psyc|query|res(?:ource)?|rmi|rsync|rtmp|rtsp|secondlife|service|session|sftp|sgn|shttp|sieve|sips?|skype|sm[bs]|snmp|soap\.beeps?|soldat|spotify|ssh|steam|svn|tag|teamspeak|tel(?:net)?|tftp|things|thismessage|tip|tn3270|tv|udp|unreal|urn|ut2004|vemmi|ventrilo|view-source|webcal|wss?|wtai|wyciwyg|xcon(?:-userid)?|xfire|xmlrpc\.beeps?|xmpp|xri|ymsgr|z39\.50[rs]?):(?:\/{1,3}|[a-z0-9%])|www\d{0,3}[.]|[a-z0-9.\-]+[.][a-z]{2,4}\/)(?:[^\s()<>]|\([^\s()<>]*\))+(?:\([^\s()<>]*\)|[^\s`*!()\[\]{};:'".,<>?«»“”‘’]))/i // from CodeMirror/mode/gfm
+export const urlRE = /^((?:(?:aaas?|about|acap|adiumxtra|af[ps]|aim|apt|attachment|aw|beshare|bitcoin|bolo|callto|cap|chrome(?:-extension)?|cid|coap|com-eventbrite-attendee|content|crid|cvs|data|dav|dict|dlna-(?:playcontainer|playsingle)|dns|doi|dtn|dvb|ed2k|facetime|feed|file|finger|fish|ftp|geo|gg|git|gizmoproject|go|gopher|gtalk|h323|hcp|https?|iax|icap|icon|im|imap|info|ipn|ipp|irc[6s]?|iris(?:\.beep|\.lwz|\.xpc|\.xpcs)?|itms|jar|javascript|jms|keyparc|lastfm|ldaps?|magnet|mailto|maps|market|message|mid|mms|ms-help|msnim|msrps?|mtqp|mumble|mupdate|mvn|news|nfs|nih?|nntp|notes|oid|opaquelocktoken|palm|paparazzi|platform|pop|pres|proxy|psyc|query|res(?:ource)?|rmi|rsync|rtmp|rtsp|secondlife|service|session|sftp|sgn|shttp|sieve|sips?|skype|sm[bs]|snmp|soap\.beeps?|soldat|spotify|ssh|steam|svn|tag|teamspeak|tel(?:net)?|tftp|things|thismessage|tip|tn3270|tv|udp|unreal|urn|ut2004|vemmi|ventrilo|view-source|webcal|wss?|wtai|wyciwyg|xcon(?:-userid)?|xfire|xmlrpc\.beeps?|xmpp|xri|ymsgr|z39\.50[rs]?):(?:\/{1,3}|[a-z0-9%])|www\d{0,3}[.]|[a-z0-9.\-]+[.][a-z]{2,4}\/)(?:[^\s()<>]|\([^\s()<>]*\))+(?:\([^\s()<>]*\)|[^\s`*!()\[\]{};:'".,<>?«»“”‘’]))/i // from CodeMirror/mode/gfm
 const emailRE = /^(([^<>()[\]\\.,;:\s@\"]+(\.[^<>()[\]\\.,;:\s@\"]+)*)|(\".+\"))@((\[[0-9]{1,3}\.[0-9]{1,3}\.[0-9]{1,3}\.[0-9]{1,3}\])|(([a-zA-Z\-0-9]+\.)+[a-zA-Z]{2,}))$/
 const url2RE = /^\.{0,2}\/[^\>\s]+/
 
@@ -95,6 +95,11 @@ export interface HyperMDState extends MarkdownState {
 
   hmdHashtag: HashtagType
 
+  hmdDeflist: DeflistType
+
+  hmdCallout: CalloutType
+  hmdCalloutKind: string
+
   hmdInnerStyle: string
   hmdInnerExitChecker: InnerModeExitChecker
   hmdInnerMode: CodeMirror.Mode<any>
@@ -114,6 +119,25 @@ export const enum HashtagType {
   WITH_SPACE, // hashtag text
 }
 
+export const enum DeflistType {
+  NONE = 0,
+  TERM,       // Term   (followed by a ": definition" line)
+  DEF,        // : definition   (and its lazy continuation lines)
+}
+
+export const enum CalloutType {
+  NONE = 0,
+  QUOTE,      // > [!NOTE]   (GitHub / Obsidian style, lasts until the quote ends)
+  INDENTED,   // !!! note "Title"   (MkDocs admonition, body lines are indented)
+}
+
+const calloutQuoteRE = /^\[!([\w-]+)\][+-]?/
+const calloutIndentedRE = /^(?:!!!|\?\?\?\+?)[ \t]+([\w-]+)(?=[ \t]|$)/
+const calloutIndentRE = /^(?: {4}|\t)/
+
+const deflistDefRE = /^ {0,3}:[ \t]+\S/
+const abbrDefRE = /^\*\[([^\]]+)\]:/
+
 export const enum TableType {
   NONE = 0,
   SIMPLE,     //   table | column
@@ -140,6 +164,7 @@ export const enum LinkType {
   MAYBE_FOOTNOTE_URL, // things after colon
   BARELINK2, // [some-name][]  except latter []
   FOOTREF2,  // [text][doc]  the [doc] part
+  WIKILINK,  // [[Page Name|alias]]
 }
 
 const linkStyle = {
@@ -148,8 +173,11 @@ const linkStyle = {
   [LinkType.FOOTREF]: "hmd-barelink hmd-footref",
   [LinkType.FOOTNOTE]: "hmd-footnote line-HyperMD-footnote",
   [LinkType.FOOTREF2]: "hmd-footref2",
+  [LinkType.WIKILINK]: "hmd-wikilink",
 }
 
+const wikilinkRE = /^\[\[([^\[\]\|]+)(?:\|([^\[\]]+))?\]\]/
+
 function resetTable(state: HyperMDState) {
   state.hmdTable = TableType.NONE
   state.hmdTableColumns = []
@@ -180,6 +208,10 @@ CodeMirror.defineMode("hypermd", function (cmCfg, modeCfgUser) {
     toc: true, // support [TOC] in a single line
     orgModeMarkup: true, // support OrgMode-like Markup like #+TITLE: my document
     hashtag: false, // support #hashtag
+    deflist: false, // support PHP Markdown Extra definition lists
+    abbr: false, // support PHP Markdown Extra abbreviation definitions like *[HTML]: Hyper Text Markup Language
+    callout: false, // support callouts like > [!NOTE] and !!! note "Title"
+    wikilink: false, // support [[Page Name|alias]]
 
     fencedCodeBlockHighlighting: true,
     name: "markdown",
@@ -217,6 +249,9 @@ CodeMirror.defineMode("hypermd", function (cmCfg, modeCfgUser) {
     ans.hmdNextStyle = null
     ans.hmdNextPos = null
     ans.hmdHashtag = HashtagType.NONE
+    ans.hmdDeflist = DeflistType.NONE
+    ans.hmdCallout = CalloutType.NONE
+    ans.hmdCalloutKind = null
     return ans
   }
 
@@ -228,7 +263,7 @@ CodeMirror.defineMode("hypermd", function (cmCfg, modeCfgUser) {
       "hmdOverride",
       "hmdInnerMode", "hmdInnerStyle", "hmdInnerExitChecker",
       "hmdNextPos", "hmdNextState", "hmdNextStyle",
-      "hmdHashtag",
+      "hmdHashtag", "hmdDeflist", "hmdCallout", "hmdCalloutKind",
     ]
     for (const key of keys) ans[key] = s[key]
 
@@ -255,6 +290,8 @@ CodeMirror.defineMode("hypermd", function (cmCfg, modeCfgUser) {
       ans += " line-HyperMD-codeblock line-background-HyperMD-codeblock-bg"
     }
     resetTable(state)
+    state.hmdDeflist = DeflistType.NONE
+    if (state.hmdCallout === CalloutType.QUOTE) state.hmdCallout = CalloutType.NONE
     return ans.trim() || null
   }
 
@@ -297,7 +334,7 @@ CodeMirror.defineMode("hypermd", function (cmCfg, modeCfgUser) {
 
     const wasInHTML = (state.f === rawClosure.htmlBlock)
     const wasInCodeFence = state.code === -1
-    const bol = stream.start === 0
+    const bol = stream.sol() // stream.lineStart may be moved, see [Callout]
 
     const wasLinkText = state.linkText
     const wasLinkHref = state.linkHref
@@ -308,6 +345,22 @@ CodeMirror.defineMode("hypermd", function (cmCfg, modeCfgUser) {
     var ans = ""
     var tmp: RegExpMatchArray
 
+    //#region [Callout] indented body
+    if (state.hmdCallout === CalloutType.INDENTED && stream.start === 0 && !/^\s*$/.test(stream.string)) {
+      if (tmp = stream.match(calloutIndentRE)) {
+        // hide the indentation from markdown, so the body won't be parsed as indented code
+        const indentLength = tmp[0].length
+        state.hmdOverride = (stream, state) => {
+          state.hmdOverride = null
+          return stream.hideFirstChars(indentLength, () => newMode.token(stream, state))
+        }
+        return "hmd-indent-in-callout " + calloutLineStyle(state)
+      }
+
+      state.hmdCallout = CalloutType.NONE
+    }
+    //#endregion
+
     if (inMarkdown) {
       // now implement some extra features that require higher priority than CodeMirror's markdown
 
@@ -345,12 +398,92 @@ CodeMirror.defineMode("hypermd", function (cmCfg, modeCfgUser) {
       }
       //#endregion
 
+      //#region [Abbr] abbreviation definition
+      if (bol && modeCfg.abbr && (tmp = stream.match(abbrDefRE, false))) {
+        // *[HTML]: Hyper Text Markup Language
+        //  ^^^^ name     ^^^^^^^^^^^^^^^^^^^^ description
+
+        const nameLength = tmp[1].length
+        stream.pos += 2 // "*["
+
+        state.hmdOverride = (stream, state) => {
+          stream.pos += nameLength
+          state.hmdOverride = (stream, state) => {
+            stream.match(/^\]:\s*/)
+            state.hmdOverride = stream.eol() ? null : (stream, state) => {
+              stream.skipToEnd()
+              state.hmdOverride = null
+              return "string hmd-abbr hmd-abbr-desc"
+            }
+            return "formatting formatting-abbr hmd-abbr"
+          }
+          return "hmd-abbr hmd-abbr-name"
+        }
+
+        return "formatting formatting-abbr hmd-abbr line-HyperMD-abbr"
+      }
+      //#endregion
+
+      //#region [Callout] header
+      if (modeCfg.callout && stream.start === 0 && (tmp = stream.match(calloutIndentedRE))) {
+        // !!! note "Title"
+        state.hmdCallout = CalloutType.INDENTED
+        state.hmdCalloutKind = tmp[1].toLowerCase()
+
+        if (!stream.eol()) {
+          state.hmdOverride = (stream, state) => {
+            stream.skipToEnd()
+            state.hmdOverride = null
+            return "string hmd-callout-title"
+          }
+        }
+
+        return "formatting formatting-callout hmd-callout-begin " + calloutLineStyle(state, true)
+      }
+
+      if (
+        modeCfg.callout && state.quote && !state.hmdCallout &&
+        /^ {0,3}>\s*$/.test(stream.string.slice(0, stream.start)) &&
+        !(state.prevLine.stream && /^ {0,3}>/.test(state.prevLine.stream.string)) && // must be the first line of quote
+        (tmp = stream.match(calloutQuoteRE))
+      ) {
+        // > [!NOTE] Title
+        state.hmdCallout = CalloutType.QUOTE
+        state.hmdCalloutKind = tmp[1].toLowerCase()
+
+        return "formatting formatting-callout hmd-callout-begin quote quote-" + state.quote +
+          " line-HyperMD-quote line-HyperMD-quote-" + state.quote + " " + calloutLineStyle(state, true)
+      }
+      //#endregion
+
       //#region [TOC] in a single line
       if (bol && modeCfg.toc && stream.match(/^\[TOC\]\s*$/i)) {
         return "meta line-HyperMD-toc hmd-toc"
       }
       //#endregion
 
+      //#region [WikiLink]
+      if (modeCfg.wikilink && inMarkdownInline && !state.hmdLinkType && (tmp = stream.match(wikilinkRE, false))) {
+        // [[Page Name|alias]]
+        const parts: [number, string][] = [[2, "formatting formatting-wikilink"], [tmp[1].length, "hmd-wikilink-target"]]
+        if (tmp[2]) parts.push([1, "formatting formatting-wikilink"], [tmp[2].length, "hmd-wikilink-alias"])
+        parts.push([2, "formatting formatting-wikilink"])
+
+        state.hmdLinkType = LinkType.WIKILINK
+        state.hmdOverride = (stream, state) => {
+          const part = parts.shift()
+          stream.pos += part[0]
+          if (!parts.length) {
+            state.hmdOverride = null
+            state.hmdLinkType = LinkType.NONE
+          }
+          return part[1] + " " + linkStyle[LinkType.WIKILINK]
+        }
+
+        return state.hmdOverride(stream, state)
+      }
+      //#endregion
+
       //#region Extra markdown inline extenson
       if (inMarkdownInline) {
         // transform unformatted URL into link
@@ -470,6 +603,41 @@ CodeMirror.defineMode("hypermd", function (cmCfg, modeCfgUser) {
 
       //#endregion
 
+      //#region [Callout] quote body
+
+      if (bol && state.hmdCallout === CalloutType.QUOTE) {
+        if (state.quote) ans += " " + calloutLineStyle(state)
+        else state.hmdCallout = CalloutType.NONE
+      }
+
+      //#endregion
+
+      //#region [DefList] Definition List
+
+      if (bol && modeCfg.deflist) {
+        const isPlainLine = !state.header && !state.hr && state.list === false && !state.quote && !state.indentedCode && !state.hmdTable
+
+        if (deflistDefRE.test(stream.string)) {
+          // ": definition"  is valid only after a Term or another definition
+          if (state.hmdDeflist !== DeflistType.NONE) state.hmdDeflist = DeflistType.DEF
+        } else if (isPlainLine && state.hmdDeflist === DeflistType.DEF) {
+          // lazy continuation line of a definition. new Term must come after a blank line
+        } else if (isPlainLine && deflistDefRE.test(stream.lookAhead(1) || "")) {
+          state.hmdDeflist = DeflistType.TERM
+        } else {
+          state.hmdDeflist = DeflistType.NONE
+        }
+
+        if (state.hmdDeflist === DeflistType.TERM) ans += " line-HyperMD-deflist-term"
+        else if (state.hmdDeflist === DeflistType.DEF) ans += " line-HyperMD-deflist-def"
+      }
+
+      if (state.hmdDeflist === DeflistType.DEF && current === ":" && /^\s*$/.test(stream.string.slice(0, stream.start)) && deflistDefRE.test(stream.string)) {
+        ans += " formatting formatting-deflist hmd-deflist-colon"
+      }
+
+      //#endregion
+
       //#region List
 
       let maxNonCodeIndentation = (state.listStack[state.listStack.length - 1] || 0) + 3
@@ -745,6 +913,12 @@ CodeMirror.defineMode("hypermd", function (cmCfg, modeCfgUser) {
     return ans.trim() || null
   }
 
+  function calloutLineStyle(state: HyperMDState, isBegin?: boolean): string {
+    var ans = "line-HyperMD-callout line-HyperMD-callout-" + state.hmdCalloutKind
+    if (isBegin) ans += " line-HyperMD-callout-begin"
+    return ans
+  }
+
   function modeOverride(stream: CodeMirror.StringStream, state: HyperMDState): string {
     const exit = state.hmdInnerExitChecker(stream, state)
     const extraStyle = state.hmdInnerStyle
@@ -15,7 +15,7 @@
 // If you are using this PowerPack, please add "Uploaded images are hosted by https://sm.ms" to your app
 // 如果使用了此 PowerPack，请别忘记添加 “由 https://sm.ms 提供图床服务”
 
-import { FileHandler, ajaxUpload, defaultOption } from "../addon/insert-file"
+import { FileHandler, ajaxUpload, defaultOption, getAddon } from "../addon/insert-file"
 
 /**
  * Upload one image.
@@ -89,7 +89,11 @@ export const SmMsFileHandler: FileHandler = function (files, action) {
     uploads.push(task)
     unfinishedCount++
 
-    Upload_One(file, uploadCallback.bind(null, task))
+    // upload with the queue of InsertFile addon, which limits concurrency and retries if failed
+    getAddon(action.cm).enqueueUpload(file, Upload_One, (queued) => {
+      if (task.url) return // already handled
+      if (queued.status === "done" || queued.status === "failed") uploadCallback(task, queued.url)
+    })
   }
 
   return uploads.length > 0
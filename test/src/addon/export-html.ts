@@ -0,0 +1,58 @@
+import { Test } from "hypermd_test/tester";
+
+import "hypermd/mode/hypermd"
+import "codemirror/mode/stex/stex" // for math
+import { exportHTML } from "hypermd/addon/export-html";
+
+export const test = new Test('Export HTML')
+
+/** make a task, which expects the exported HTML contains all `expects` and none of `unexpects` */
+const _T = (markdown: string, expects: string[], unexpects: string[] = []) => (d) => {
+  const html = exportHTML(markdown)
+  d.detail = html
+
+  for (let i = 0; i < expects.length; i++) if (html.indexOf(expects[i]) === -1) return false
+  for (let i = 0; i < unexpects.length; i++) if (html.indexOf(unexpects[i]) !== -1) return false
+  return true
+}
+
+test.add('Table', _T(
+  "| a | b | c |\n| --- | :---: | ---: |\n| 1 | 2 | 3 |",
+  [
+    '<table><thead><tr><th>a</th><th style="text-align: center">b</th><th style="text-align: right">c</th></tr></thead>',
+    '<tbody><tr><td>1</td><td style="text-align: center">2</td><td style="text-align: right">3</td></tr></tbody></table>',
+  ],
+  ['text-align: default'],
+))
+
+test.add('Task list', _T(
+  "- [ ] todo\n- [x] done",
+  ['<input type="checkbox" disabled> todo', '<input type="checkbox" disabled checked> done'],
+))
+
+test.add('Footnote', _T(
+  "Text[^1]\n\n[^1]: the note",
+  [
+    '<sup class="footnote-ref"><a href="#fn-1" id="fnref-1">1</a></sup>',
+    '<li id="fn-1">the note <a href="#fnref-1" class="footnote-backref">↩</a></li>',
+  ],
+))
+
+test.add('Math', _T(
+  "Inline $x^2$\n\n$$a+b$$",
+  ['<span class="math">\\(x^2\\)</span>', '<div class="math">\\[a+b\\]</div>'],
+))
+
+test.add('Unclosed code span', _T("`code", ['<p>`code</p>']))
+
+test.add('Unsafe URLs', _T(
+  "[a](javascript:alert(1)) ![b](data:image/png,x) [c](http://x)",
+  ['<p>a b <a href="http://x">c</a></p>'],
+  ['javascript:', 'data:'],
+))
+
+test.add('Raw HTML is sanitized', _T(
+  '<b onclick="x">bold</b><script>alert(1)</script>',
+  ['<b>bold</b>'],
+  ['onclick', '<script'],
+))
@@ -0,0 +1,20 @@
+import { Test } from "hypermd_test/tester";
+
+import { sanitizeHTML } from "hypermd/addon/fold-html";
+
+export const test = new Test('FoldHTML Sanitizer')
+
+/** make a task, which expects `sanitizeHTML` returns `expect` */
+const _T = (html: string, expect: string) => (d) => {
+  const ans = sanitizeHTML(html)
+  d.detail = ans
+  return ans === expect
+}
+
+test.add('Allowed tags', _T('<p>a <b title="t">b</b> <a href="http://x">c</a></p>', '<p>a <b title="t">b</b> <a href="http://x">c</a></p>'))
+test.add('Event handlers and scripts', _T('<div onclick="x"><script>alert(1)</script><img src="x" onerror="alert(1)"></div>', '<div><img src="x"></div>'))
+test.add('javascript: URLs', _T('<a href=" java\tscript:alert(1)">x</a>', '<a>x</a>'))
+test.add('Unknown tags are unwrapped', _T('<div><custom>text</custom></div>', '<div>text</div>'))
+test.add('Raw text elements', _T('<p><iframe src="http://x"></iframe><noembed><img src=x onerror=1></noembed>ok</p>', '<p>ok</p>'))
+test.add('mXSS via SVG', _T('<div><svg><iframe><a title="</iframe><img src=x onerror=alert(1)>"></a></iframe></svg></div>', '<div></div>'))
+test.add('mXSS via MathML', _T('<div><math><iframe><a title="</iframe><img src=x onerror=alert(1)>"></a></iframe></math></div>', '<div></div>'))
@@ -0,0 +1,34 @@
+import { Test } from "hypermd_test/tester";
+
+import { parseTabularText, LinkSelectionRule } from "hypermd/addon/paste";
+
+export const test = new Test('Paste')
+
+/** make a task, which expects `parseTabularText` returns the rows */
+const _T = (text: string, separator: string, expect: string[][]) => (d) => {
+  const ans = parseTabularText(text, separator)
+  d.detail = JSON.stringify(ans)
+  return JSON.stringify(ans) === JSON.stringify(expect)
+}
+
+test.add('TSV', _T("a\tb\n1\t2\n", "\t", [["a", "b"], ["1", "2"]]))
+test.add('CSV with quotes', _T('name,note\nfoo,"a, ""b"""', ",", [["name", "note"], ["foo", 'a, "b"']]))
+
+test.add('Not a table: single column', _T("a\nb", "\t", null))
+test.add('Not a table: column count mismatch', _T("a\tb\n1\t2\t3", "\t", null))
+test.add('Not a table: tab-indented code', _T("\tx := 1\n\ty := 2", "\t", null))
+test.add('Not a table: empty trailing cells', _T("a\t\nb\t", "\t", null))
+test.add('Not a table: function calls', _T("foo(a, b)\nbar(c, d)", ",", null))
+test.add('Not a table: code with semicolons', _T("int a, b;\nint c, d;", ",", null))
+test.add('Not a table: indented lines', _T("  a, b\n  c, d", ",", null))
+
+/** make a task, which expects pasting `text` while `selected` is selected makes `expect` */
+const _L = (text: string, selected: string, expect: string) => (d) => {
+  const ans = LinkSelectionRule(text, selected, null)
+  d.detail = ans
+  return ans === expect
+}
+
+test.add('Link selection', _L("http://x.com/a", "text", "[text](http://x.com/a)"))
+test.add('Link selection: brackets in text', _L("http://x.com/", "a [b] \\c", "[a \\[b\\] \\\\c](http://x.com/)"))
+test.add('Link selection: parentheses in URL', _L("https://en.wikipedia.org/wiki/Foo_(bar)", "foo", "[foo](https://en.wikipedia.org/wiki/Foo_%28bar%29)"))
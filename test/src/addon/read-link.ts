@@ -0,0 +1,113 @@
+import { Test } from "hypermd_test/tester";
+import { DummyEditor } from "hypermd_test/dummy-editor";
+
+import { CacheDB, getAddon as getReadLink } from "hypermd/addon/read-link";
+
+export const test = new Test('ReadLink')
+
+/** make a document, where every 10th line is a definition */
+function makeDocument(lineCount: number) {
+  var lines: string[] = []
+  for (let i = 0; i < lineCount; i++) {
+    if (i % 10 === 9) lines.push(`[link${i}]: http://example.com/${i}`)
+    else lines.push(`Line ${i} refers to [link${i - i % 10 + 9}] and [shared].`)
+  }
+  lines.push(`[shared]: http://example.com/shared`)
+  return lines.join("\n")
+}
+
+/** compare two CacheDB. returns a message if not the same */
+function diffCache(actual: CacheDB, expected: CacheDB): string {
+  const keys1 = Object.keys(actual).sort(), keys2 = Object.keys(expected).sort()
+  if (keys1.join("\n") !== keys2.join("\n")) return `keys mismatch: ${keys1.length} vs ${keys2.length}`
+
+  for (let i = 0; i < keys1.length; i++) {
+    const key = keys1[i]
+    const a = JSON.stringify(actual[key]), b = JSON.stringify(expected[key])
+    if (a !== b) return `[${key}] ${a} vs ${b}`
+  }
+
+  return null
+}
+
+/** check if the incrementally-updated cache is the same as a fully rescanned one */
+function checkCache(editor: DummyEditor) {
+  const readLink = getReadLink(editor.cm)
+  const incremental = readLink.cache
+  readLink.rescan()
+  return diffCache(incremental, readLink.cache)
+}
+
+test.add('Incremental update', (d) => {
+  const editor = new DummyEditor()
+  const cm = editor.cm
+  cm.setValue(makeDocument(200))
+  getReadLink(cm) // initialize the cache
+
+  const steps: [string, () => void][] = [
+    ["insert lines", () => cm.replaceRange("new line\n[new]: http://new\n", { line: 5, ch: 0 })],
+    ["delete lines", () => cm.replaceRange("", { line: 15, ch: 0 }, { line: 42, ch: 3 })],
+    ["turn a line into definition", () => cm.replaceRange("[turned]: ", { line: 60, ch: 0 })],
+    ["break a definition", () => cm.replaceRange("x", { line: 8, ch: 0 })],
+    ["duplicated definition", () => cm.replaceRange("\n[link19]: http://dup", { line: 3, ch: cm.getLine(3).length })],
+    ["several changes in one operation", () => cm.operation(() => {
+      cm.replaceRange("[op1]: http://op1\n", { line: 100, ch: 0 })
+      cm.replaceRange("", { line: 20, ch: 0 }, { line: 30, ch: 0 })
+      cm.replaceRange("[op2]: http://op2\n\n", { line: 95, ch: 0 })
+      cm.replaceRange("more\n", { line: 22, ch: 0 })
+    })],
+    ["replace everything", () => cm.setValue("[a]: b\n\n[c]: d")],
+  ]
+
+  for (let i = 0; i < steps.length; i++) {
+    steps[i][1]()
+    const diff = checkCache(editor)
+    if (diff) {
+      d.detail = steps[i][0] + ": " + diff
+      editor.destory()
+      return false
+    }
+  }
+
+  editor.destory()
+  return true
+})
+
+test.add('Benchmark: 5000 lines', (d) => {
+  const editor = new DummyEditor()
+  const cm = editor.cm
+  const readLink = getReadLink(cm)
+  cm.setValue(makeDocument(5000))
+
+  const editCount = 100
+  const edit = (i: number) => {
+    const line = (i * 997) % cm.lineCount()
+    cm.replaceRange(i % 2 ? "[bench]: http://x\n" : "typing ", { line, ch: 0 })
+  }
+
+  // incremental: the cache is updated while editing
+  var t0 = performance.now()
+  for (let i = 0; i < editCount; i++) edit(i)
+  var incrementalTime = performance.now() - t0
+
+  const diff = checkCache(editor)
+
+  // the old way: rescan the whole document after every change, without incremental updating
+  cm.off("changes", readLink["_changesHandler"])
+  t0 = performance.now()
+  for (let i = 0; i < editCount; i++) {
+    edit(i)
+    readLink.rescan()
+  }
+  var rescanTime = performance.now() - t0
+
+  editor.destory()
+
+  // timing is only informative, as it depends on the machine
+  d.detail = `${editCount} edits. incremental: ${incrementalTime.toFixed(1)}ms, with rescan: ${rescanTime.toFixed(1)}ms`
+  if (diff) {
+    d.detail += ". cache mismatch: " + diff
+    return false
+  }
+  return true
+})
@@ -0,0 +1,27 @@
+import { Test } from "hypermd_test/tester";
+import { createModeTask } from "./_base";
+
+export const test = new Test('Abbreviation')
+
+const modeOpt = { abbr: true };
+const _T = (input, expect?) => createModeTask(input, expect, modeOpt);
+
+
+test.add('Basic', _T(`*[HTML]: Hyper Text Markup Language\nThe HTML spec`, [
+  ["*[", "formatting formatting-abbr hmd-abbr line-HyperMD-abbr"],
+  ["HTML", "hmd-abbr hmd-abbr-name"],
+  ["]: ", "formatting formatting-abbr hmd-abbr"],
+  ["Hyper Text Markup Language", "hmd-abbr hmd-abbr-desc string"],
+  ["\n", ""],
+  ["The", ""],
+  [" ", ""],
+  ["HTML", ""],
+  [" ", ""],
+  ["spec", ""],
+]))
+
+test.add('Empty description', _T(`*[W3C]:`, [
+  ["*[", "formatting formatting-abbr hmd-abbr line-HyperMD-abbr"],
+  ["W3C", "hmd-abbr hmd-abbr-name"],
+  ["]:", "formatting formatting-abbr hmd-abbr"],
+]))
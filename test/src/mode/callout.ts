@@ -0,0 +1,82 @@
+import { Test } from "hypermd_test/tester";
+import { createModeTask } from "./_base";
+
+export const test = new Test('Callout')
+
+const modeOpt = { callout: true };
+const _T = (input, expect?) => createModeTask(input, expect, modeOpt);
+
+
+test.add('Quote style', _T(`> [!NOTE] Hello\n> body\n\nafter`, [
+  [">", "formatting formatting-quote formatting-quote-1 quote quote-1"],
+  [" ", "hmd-indent-in-quote line-HyperMD-quote line-HyperMD-quote-1"],
+  ["[!NOTE]", "formatting formatting-callout hmd-callout-begin line-HyperMD-callout line-HyperMD-callout-begin line-HyperMD-callout-note line-HyperMD-quote line-HyperMD-quote-1 quote quote-1"],
+  [" ", ""],
+  ["Hello", "line-HyperMD-quote line-HyperMD-quote-1 quote quote-1"],
+  ["\n", ""],
+  [">", "formatting formatting-quote formatting-quote-1 line-HyperMD-callout line-HyperMD-callout-note quote quote-1"],
+  [" ", "hmd-indent-in-quote line-HyperMD-quote line-HyperMD-quote-1"],
+  ["body", "line-HyperMD-quote line-HyperMD-quote-1 quote quote-1"],
+  ["\n", ""],
+  ["\n", ""],
+  ["after", ""],
+]))
+
+test.add('Quote style without title', _T(`> [!WARNING]\n> body`, [
+  [">", "formatting formatting-quote formatting-quote-1 quote quote-1"],
+  [" ", "hmd-indent-in-quote line-HyperMD-quote line-HyperMD-quote-1"],
+  ["[!WARNING]", "formatting formatting-callout hmd-callout-begin line-HyperMD-callout line-HyperMD-callout-begin line-HyperMD-callout-warning line-HyperMD-quote line-HyperMD-quote-1 quote quote-1"],
+  ["\n", ""],
+  [">", "formatting formatting-quote formatting-quote-1 line-HyperMD-callout line-HyperMD-callout-warning quote quote-1"],
+  [" ", "hmd-indent-in-quote line-HyperMD-quote line-HyperMD-quote-1"],
+  ["body", "line-HyperMD-quote line-HyperMD-quote-1 quote quote-1"],
+]))
+
+test.add('Plain quote is not a callout', _T(`> quote\n> [!NOTE]`, [
+  [">", "formatting formatting-quote formatting-quote-1 quote quote-1"],
+  [" ", "hmd-indent-in-quote line-HyperMD-quote line-HyperMD-quote-1"],
+  ["quote", "line-HyperMD-quote line-HyperMD-quote-1 quote quote-1"],
+  ["\n", ""],
+  [">", "formatting formatting-quote formatting-quote-1 quote quote-1"],
+  [" ", "hmd-indent-in-quote line-HyperMD-quote line-HyperMD-quote-1"],
+  ["[", "formatting formatting-link hmd-barelink link quote quote-1"],
+  ["!", "hmd-barelink link quote quote-1"],
+  ["NOTE", "hmd-barelink link quote quote-1"],
+  ["]", "formatting formatting-link hmd-barelink line-HyperMD-quote line-HyperMD-quote-1 link quote quote-1"],
+]))
+
+test.add('Admonition', _T(`!!! note "Title"\n    body\n\n    more\nafter`, [
+  ["!!! note", "formatting formatting-callout hmd-callout-begin line-HyperMD-callout line-HyperMD-callout-begin line-HyperMD-callout-note"],
+  [" \"Title\"", "hmd-callout-title string"],
+  ["\n", ""],
+  ["    ", "hmd-indent-in-callout line-HyperMD-callout line-HyperMD-callout-note"],
+  ["body", ""],
+  ["\n", ""],
+  ["\n", ""],
+  ["    ", "hmd-indent-in-callout line-HyperMD-callout line-HyperMD-callout-note"],
+  ["more", ""],
+  ["\n", ""],
+  ["after", ""],
+]))
+
+test.add('Admonition body is not indented code', _T(`!!! tip\n\n    *emphasis*`, [
+  ["!!! tip", "formatting formatting-callout hmd-callout-begin line-HyperMD-callout line-HyperMD-callout-begin line-HyperMD-callout-tip"],
+  ["\n", ""],
+  ["\n", ""],
+  ["    ", "hmd-indent-in-callout line-HyperMD-callout line-HyperMD-callout-tip"],
+  ["*", "em formatting formatting-em"],
+  ["emphasis", "em"],
+  ["*", "em formatting formatting-em"],
+]))
+
+test.add('Disabled by default', createModeTask(`!!! note\n\n    code`, [
+  ["!", ""],
+  ["!", ""],
+  ["!", ""],
+  [" ", ""],
+  ["note", ""],
+  ["\n", ""],
+  ["\n", ""],
+  ["    ", ""],
+  ["code", "hmd-indented-code inline-code"],
+]))
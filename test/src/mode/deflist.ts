@@ -0,0 +1,94 @@
+import { Test } from "hypermd_test/tester";
+import { createModeTask } from "./_base";
+
+export const test = new Test('Definition List')
+
+const modeOpt = { deflist: true };
+const _T = (input, expect?) => createModeTask(input, expect, modeOpt);
+
+
+test.add('Basic', _T(`Apple\n: Pomaceous fruit`, [
+  ["Apple", "line-HyperMD-deflist-term"],
+  ["\n", ""],
+  [":", "formatting formatting-deflist hmd-deflist-colon line-HyperMD-deflist-def"],
+  [" ", ""],
+  ["Pomaceous", ""],
+  [" ", ""],
+  ["fruit", ""],
+]))
+
+test.add('Multiple definitions and lazy continuation', _T(`Orange\n: The fruit\nof an evergreen tree\n: A color\n\nNot a def`, [
+  ["Orange", "line-HyperMD-deflist-term"],
+  ["\n", ""],
+  [":", "formatting formatting-deflist hmd-deflist-colon line-HyperMD-deflist-def"],
+  [" ", ""],
+  ["The", ""],
+  [" ", ""],
+  ["fruit", ""],
+  ["\n", ""],
+  ["of", "line-HyperMD-deflist-def"],
+  [" ", ""],
+  ["an", ""],
+  [" ", ""],
+  ["evergreen", ""],
+  [" ", ""],
+  ["tree", ""],
+  ["\n", ""],
+  [":", "formatting formatting-deflist hmd-deflist-colon line-HyperMD-deflist-def"],
+  [" ", ""],
+  ["A", ""],
+  [" ", ""],
+  ["color", ""],
+  ["\n", ""],
+  ["\n", ""],
+  ["Not", ""],
+  [" ", ""],
+  ["a", ""],
+  [" ", ""],
+  ["def", ""],
+]))
+
+test.add('Entries separated by blank line', _T(`Apple\n:   fruit\n\nOrange\n: fruit`, [
+  ["Apple", "line-HyperMD-deflist-term"],
+  ["\n", ""],
+  [":", "formatting formatting-deflist hmd-deflist-colon line-HyperMD-deflist-def"],
+  [" ", ""],
+  [" ", ""],
+  [" ", ""],
+  ["fruit", ""],
+  ["\n", ""],
+  ["\n", ""],
+  ["Orange", "line-HyperMD-deflist-term"],
+  ["\n", ""],
+  [":", "formatting formatting-deflist hmd-deflist-colon line-HyperMD-deflist-def"],
+  [" ", ""],
+  ["fruit", ""],
+]))
+
+test.add('Colon without term', _T(`\n: not a definition`, [
+  ["\n", ""],
+  [":", ""],
+  [" ", ""],
+  ["not", ""],
+  [" ", ""],
+  ["a", ""],
+  [" ", ""],
+  ["definition", ""],
+]))
+
+test.add('Headers are not terms', _T(`# Header\n: text`, [
+  ["# ", "formatting formatting-header formatting-header-1 header header-1 line-HyperMD-header line-HyperMD-header-1"],
+  ["Header", "header header-1"],
+  ["\n", ""],
+  [":", ""],
+  [" ", ""],
+  ["text", ""],
+]))
+
+test.add('Disabled by default', createModeTask(`Apple\n: fruit`, [
+  ["Apple", ""],
+  ["\n", ""],
+  [":", ""],
+  [" ", ""],
+  ["fruit", ""],
+]))
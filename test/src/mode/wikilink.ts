@@ -0,0 +1,43 @@
+import { Test } from "hypermd_test/tester";
+import { createModeTask } from "./_base";
+
+export const test = new Test('WikiLink')
+
+const modeOpt = { wikilink: true };
+const _T = (input, expect?) => createModeTask(input, expect, modeOpt);
+
+
+test.add('Basic', _T(`see [[Page Name]] here`, [
+  ["see", ""],
+  [" ", ""],
+  ["[[", "formatting formatting-wikilink hmd-wikilink"],
+  ["Page Name", "hmd-wikilink hmd-wikilink-target"],
+  ["]]", "formatting formatting-wikilink hmd-wikilink"],
+  [" ", ""],
+  ["here", ""],
+]))
+
+test.add('With alias', _T(`[[Page Name#Section|the page]]`, [
+  ["[[", "formatting formatting-wikilink hmd-wikilink"],
+  ["Page Name#Section", "hmd-wikilink hmd-wikilink-target"],
+  ["|", "formatting formatting-wikilink hmd-wikilink"],
+  ["the page", "hmd-wikilink hmd-wikilink-alias"],
+  ["]]", "formatting formatting-wikilink hmd-wikilink"],
+]))
+
+test.add('Two links', _T(`[[A]][[B|b]]`, [
+  ["[[", "formatting formatting-wikilink hmd-wikilink"],
+  ["A", "hmd-wikilink hmd-wikilink-target"],
+  ["]]", "formatting formatting-wikilink hmd-wikilink"],
+  ["[[", "formatting formatting-wikilink hmd-wikilink"],
+  ["B", "hmd-wikilink hmd-wikilink-target"],
+  ["|", "formatting formatting-wikilink hmd-wikilink"],
+  ["b", "hmd-wikilink hmd-wikilink-alias"],
+  ["]]", "formatting formatting-wikilink hmd-wikilink"],
+]))
+
+test.add('Disabled by default', createModeTask(`[[Page]]`, [
+  ["[", "formatting formatting-link hmd-barelink link"],
+  ["[Page]", "hmd-barelink link"],
+  ["]", "formatting formatting-link hmd-barelink link"],
+]))
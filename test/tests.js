@@ -4,6 +4,14 @@
 // Declare all testCases
 var caseNames = [
   'mode/hashtag',
+  'mode/deflist',
+  'mode/abbr',
+  'mode/callout',
+  'mode/wikilink',
+  'addon/fold-html',
+  'addon/read-link',
+  'addon/paste',
+  'addon/export-html',
 ]
 
 // --------------------------------------------------------------